@@ -0,0 +1,38 @@
+import { connect } from "nats";
+import { MpciumAdmin } from "../src";
+
+// Provision the JetStream streams and durable consumers used by MpciumClient.
+// Pass --check to only report drift against the server configuration.
+async function main() {
+  const checkOnly = process.argv.includes("--check");
+
+  const nc = await connect({ servers: "nats://localhost:4222" });
+  console.log(`Connected to NATS at ${nc.getServer()}`);
+
+  try {
+    const admin = new MpciumAdmin({ nc });
+    const results = checkOnly
+      ? await admin.checkDrift()
+      : await admin.provision({ updateDrifted: true });
+
+    for (const result of results) {
+      console.log(`${result.resource} ${result.name}: ${result.action}`);
+      for (const drift of result.drift) {
+        console.log(
+          `  ${drift.field}: expected ${JSON.stringify(
+            drift.expected
+          )}, found ${JSON.stringify(drift.actual)}${
+            drift.mutable ? "" : " (requires re-creating)"
+          }`
+        );
+      }
+    }
+  } finally {
+    await nc.drain();
+  }
+}
+
+main().catch((err) => {
+  console.error("Provisioning failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,598 @@
+import {
+  NatsConnection,
+  NatsError,
+  JetStreamManager,
+  RetentionPolicy,
+  StorageType,
+  StreamConfig,
+  ConsumerConfig,
+  AckPolicy,
+  DeliverPolicy,
+  nanos,
+} from "nats";
+import { ConsumerOptions } from "./types";
+import { SubjectConfig, resolveSubjects } from "./subjects";
+import {
+  Logger,
+  LogLevel,
+  silentLogger,
+  withLevel,
+  withRedaction,
+} from "./logger";
+import { TransportError } from "./errors";
+
+/**
+ * - results: the `mpc` stream holding keygen, signing and resharing results
+ * - keygen / signing: the request streams consumed by the MPC nodes
+ * - deadLetter: results that could not be processed by the clients
+ */
+export type StreamRole = "results" | "keygen" | "signing" | "deadLetter";
+
+export interface StreamSpec {
+  retention?: RetentionPolicy;
+  storage?: StorageType;
+  replicas?: number;
+  maxBytes?: number; // -1 for unlimited
+  maxAgeMs?: number; // 0 for unlimited
+}
+
+export type StreamSpecs = Partial<Record<StreamRole, StreamSpec>>;
+
+const MAX_STREAM_BYTES = 100 * 1024 * 1024;
+
+// Interest retention lets shared and per-instance consumers read the same
+// results; the request streams are work queues consumed by the nodes
+export const DEFAULT_STREAM_SPECS: Readonly<
+  Record<StreamRole, Required<StreamSpec>>
+> = {
+  results: {
+    retention: RetentionPolicy.Interest,
+    storage: StorageType.File,
+    replicas: 1,
+    maxBytes: MAX_STREAM_BYTES,
+    maxAgeMs: 0,
+  },
+  keygen: {
+    retention: RetentionPolicy.Workqueue,
+    storage: StorageType.File,
+    replicas: 1,
+    maxBytes: MAX_STREAM_BYTES,
+    maxAgeMs: 0,
+  },
+  signing: {
+    retention: RetentionPolicy.Workqueue,
+    storage: StorageType.File,
+    replicas: 1,
+    maxBytes: MAX_STREAM_BYTES,
+    maxAgeMs: 0,
+  },
+  deadLetter: {
+    retention: RetentionPolicy.Limits,
+    storage: StorageType.File,
+    replicas: 1,
+    maxBytes: MAX_STREAM_BYTES,
+    maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+  },
+};
+
+const STREAM_ROLES: StreamRole[] = [
+  "results",
+  "keygen",
+  "signing",
+  "deadLetter",
+];
+
+export interface AdminOptions {
+  nc: NatsConnection;
+  namespace?: string; // Same namespace as the clients
+  subjects?: Partial<SubjectConfig>; // Same overrides as the clients
+  streams?: StreamSpecs; // Overrides of DEFAULT_STREAM_SPECS
+  consumer?: Pick<ConsumerOptions, "ackWaitMs" | "maxDeliver">; // Shared durable consumers
+  logger?: Logger;
+  logLevel?: LogLevel | "silent";
+}
+
+export interface ConfigDrift {
+  field: string; // Server configuration field, e.g. max_bytes
+  expected: unknown;
+  actual: unknown;
+  mutable: boolean; // Can be updated in place; otherwise needs re-creating
+}
+
+/**
+ * - created: did not exist and was created
+ * - unchanged: exists and matches the configuration
+ * - updated: drifted and was updated in place
+ * - drifted: differs from the configuration and was left as is
+ * - conflict: could not be created because its subjects overlap another stream
+ * - missing: does not exist (drift checks only)
+ */
+export type ProvisionAction =
+  | "created"
+  | "unchanged"
+  | "updated"
+  | "drifted"
+  | "conflict"
+  | "missing";
+
+export interface ProvisionResult {
+  resource: "stream" | "consumer";
+  name: string;
+  stream: string; // The stream itself, or the stream of the consumer
+  action: ProvisionAction;
+  drift: ConfigDrift[];
+  error?: string;
+}
+
+export interface ProvisionOptions {
+  updateDrifted?: boolean; // Apply mutable drift to existing resources (default: false)
+  consumers?: boolean; // Also provision the shared durable consumers (default: true)
+}
+
+// JetStream API error codes
+const STREAM_NOT_FOUND = 10059;
+const CONSUMER_NOT_FOUND = 10014;
+const SUBJECTS_OVERLAP = 10065;
+
+interface DurableConsumer {
+  name: string;
+  subject: string;
+}
+
+/**
+ * Provisions the JetStream streams and shared durable consumers used by
+ * MpciumClient from a declarative configuration. Run it once as a setup
+ * step with JetStream admin permissions, then create clients with
+ * `provision: false` so they only need to publish and consume.
+ */
+export class MpciumAdmin {
+  private subjects: SubjectConfig;
+  private specs: Record<StreamRole, Required<StreamSpec>>;
+  private logger: Logger;
+
+  constructor(private options: AdminOptions) {
+    this.subjects = resolveSubjects(options.namespace, options.subjects);
+    this.specs = {
+      results: { ...DEFAULT_STREAM_SPECS.results, ...options.streams?.results },
+      keygen: { ...DEFAULT_STREAM_SPECS.keygen, ...options.streams?.keygen },
+      signing: { ...DEFAULT_STREAM_SPECS.signing, ...options.streams?.signing },
+      deadLetter: {
+        ...DEFAULT_STREAM_SPECS.deadLetter,
+        ...options.streams?.deadLetter,
+      },
+    };
+    this.logger = withRedaction(
+      withLevel(options.logger ?? silentLogger, options.logLevel ?? "debug")
+    );
+  }
+
+  /**
+   * Create every missing stream and shared durable consumer
+   * @param options Whether to update drifted resources and provision consumers
+   * @returns One result per stream and consumer
+   */
+  async provision(options: ProvisionOptions = {}): Promise<ProvisionResult[]> {
+    const results = await this.ensureStreams(STREAM_ROLES, options);
+    if (options.consumers ?? true) {
+      results.push(...(await this.ensureConsumers(options)));
+    }
+    return results;
+  }
+
+  /**
+   * Create the given streams if they do not exist
+   * @param roles Streams to provision (default: all)
+   * @param options Whether to update drifted streams
+   */
+  async ensureStreams(
+    roles: StreamRole[] = STREAM_ROLES,
+    options: Pick<ProvisionOptions, "updateDrifted"> = {}
+  ): Promise<ProvisionResult[]> {
+    const jsm = await this.jetstreamManager();
+    const results: ProvisionResult[] = [];
+    for (const role of roles) {
+      results.push(await this.ensureStream(jsm, role, options));
+    }
+    return results;
+  }
+
+  /**
+   * Create the shared durable result consumers if they do not exist
+   * @param options Whether to update drifted consumers
+   */
+  async ensureConsumers(
+    options: Pick<ProvisionOptions, "updateDrifted"> = {}
+  ): Promise<ProvisionResult[]> {
+    const jsm = await this.jetstreamManager();
+    const results: ProvisionResult[] = [];
+    for (const consumer of this.durableConsumers()) {
+      results.push(await this.ensureConsumer(jsm, consumer, options));
+    }
+    return results;
+  }
+
+  /**
+   * Compare the server configuration with the declared one without
+   * changing anything
+   * @returns One result per stream and consumer: unchanged, drifted or missing
+   */
+  async checkDrift(): Promise<ProvisionResult[]> {
+    const jsm = await this.jetstreamManager();
+    const results: ProvisionResult[] = [];
+
+    for (const role of STREAM_ROLES) {
+      const desired = this.streamConfig(role);
+      const name = desired.name!;
+      const current = await streamInfo(jsm, name);
+      results.push(
+        current
+          ? driftResult("stream", name, name, streamDrift(desired, current))
+          : missingResult("stream", name, name)
+      );
+    }
+
+    const stream = this.subjects.resultStream;
+    for (const consumer of this.durableConsumers()) {
+      const current = await consumerInfo(jsm, stream, consumer.name);
+      results.push(
+        current
+          ? driftResult(
+              "consumer",
+              consumer.name,
+              stream,
+              consumerDrift(this.consumerConfig(consumer), current)
+            )
+          : missingResult("consumer", consumer.name, stream)
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Server configuration of a stream as declared by this admin
+   */
+  streamConfig(role: StreamRole): Partial<StreamConfig> {
+    const spec = this.specs[role];
+    const { subjects } = this;
+    const config: Record<StreamRole, Partial<StreamConfig>> = {
+      results: {
+        name: subjects.resultStream,
+        subjects: [
+          subjects.keygenResult,
+          subjects.signingResult,
+          subjects.reshareResult,
+        ],
+      },
+      keygen: {
+        name: subjects.keygenStream,
+        subjects: [`${subjects.keygenRequest}.*`],
+      },
+      signing: {
+        name: subjects.signingStream,
+        subjects: [`${subjects.signingRequest}.*`],
+      },
+      deadLetter: {
+        name: subjects.deadLetterStream,
+        subjects: [subjects.deadLetter],
+      },
+    };
+    return {
+      ...config[role],
+      retention: spec.retention,
+      storage: spec.storage,
+      num_replicas: spec.replicas,
+      max_bytes: spec.maxBytes,
+      max_age: nanos(spec.maxAgeMs),
+    };
+  }
+
+  private async ensureStream(
+    jsm: JetStreamManager,
+    role: StreamRole,
+    options: Pick<ProvisionOptions, "updateDrifted">
+  ): Promise<ProvisionResult> {
+    const desired = this.streamConfig(role);
+    const name = desired.name!;
+    const current = await streamInfo(jsm, name);
+
+    if (!current) {
+      try {
+        await jsm.streams.add(desired);
+      } catch (err) {
+        if (isApiError(err, SUBJECTS_OVERLAP)) {
+          this.logger.warn("Stream subjects overlap; proceeding", {
+            stream: name,
+          });
+          return {
+            resource: "stream",
+            name,
+            stream: name,
+            action: "conflict",
+            drift: [],
+            error: String(err),
+          };
+        }
+        throw err;
+      }
+      this.logger.info("Created stream", { stream: name });
+      return {
+        resource: "stream",
+        name,
+        stream: name,
+        action: "created",
+        drift: [],
+      };
+    }
+
+    const drift = streamDrift(desired, current);
+    if (
+      options.updateDrifted &&
+      drift.length > 0 &&
+      drift.every((d) => d.mutable)
+    ) {
+      await jsm.streams.update(name, {
+        subjects: desired.subjects,
+        num_replicas: desired.num_replicas,
+        max_bytes: desired.max_bytes,
+        max_age: desired.max_age,
+      });
+      this.logger.info("Updated drifted stream", { stream: name, drift });
+      return {
+        resource: "stream",
+        name,
+        stream: name,
+        action: "updated",
+        drift,
+      };
+    }
+    return this.reportDrift("stream", name, name, drift);
+  }
+
+  private async ensureConsumer(
+    jsm: JetStreamManager,
+    consumer: DurableConsumer,
+    options: Pick<ProvisionOptions, "updateDrifted">
+  ): Promise<ProvisionResult> {
+    const stream = this.subjects.resultStream;
+    const desired = this.consumerConfig(consumer);
+    const current = await consumerInfo(jsm, stream, consumer.name);
+
+    if (!current) {
+      await jsm.consumers.add(stream, {
+        ...desired,
+        durable_name: consumer.name,
+      });
+      this.logger.info("Created durable consumer", {
+        stream,
+        consumer: consumer.name,
+      });
+      return {
+        resource: "consumer",
+        name: consumer.name,
+        stream,
+        action: "created",
+        drift: [],
+      };
+    }
+
+    const drift = consumerDrift(desired, current);
+    if (
+      options.updateDrifted &&
+      drift.length > 0 &&
+      drift.every((d) => d.mutable)
+    ) {
+      await jsm.consumers.update(stream, consumer.name, {
+        filter_subject: desired.filter_subject,
+        max_deliver: desired.max_deliver,
+        ack_wait: desired.ack_wait,
+      });
+      this.logger.info("Updated drifted consumer", {
+        stream,
+        consumer: consumer.name,
+        drift,
+      });
+      return {
+        resource: "consumer",
+        name: consumer.name,
+        stream,
+        action: "updated",
+        drift,
+      };
+    }
+    return this.reportDrift("consumer", consumer.name, stream, drift);
+  }
+
+  private reportDrift(
+    resource: ProvisionResult["resource"],
+    name: string,
+    stream: string,
+    drift: ConfigDrift[]
+  ): ProvisionResult {
+    if (drift.length > 0) {
+      this.logger.warn(`Existing ${resource} differs from configuration`, {
+        stream,
+        name,
+        drift,
+      });
+    }
+    return driftResult(resource, name, stream, drift);
+  }
+
+  private durableConsumers(): DurableConsumer[] {
+    const { subjects } = this;
+    return [
+      { name: subjects.keygenConsumer, subject: subjects.keygenResult },
+      { name: subjects.signingConsumer, subject: subjects.signingResult },
+      { name: subjects.reshareConsumer, subject: subjects.reshareResult },
+    ];
+  }
+
+  private consumerConfig(consumer: DurableConsumer): Partial<ConsumerConfig> {
+    return resultConsumerConfig(
+      consumer.subject,
+      { ...this.options.consumer, mode: "shared" },
+      true
+    );
+  }
+
+  private async jetstreamManager(): Promise<JetStreamManager> {
+    try {
+      return await this.options.nc.jetstreamManager();
+    } catch (err) {
+      throw new TransportError(`JetStream is not available: ${err}`, {
+        cause: err,
+      });
+    }
+  }
+}
+
+// How long the server keeps an idle ephemeral or temporary consumer
+const DEFAULT_INACTIVE_THRESHOLD_MS = 5 * 60 * 1000;
+
+/**
+ * Server-side configuration of a result consumer, shared by MpciumAdmin and
+ * the consumers MpciumClient creates itself
+ * @param subject Result subject the consumer is filtered on
+ * @param options Consumer options of the client
+ * @param durable Whether the consumer is durable
+ */
+export function resultConsumerConfig(
+  subject: string,
+  options: ConsumerOptions,
+  durable: boolean
+): Partial<ConsumerConfig> {
+  const mode = options.mode ?? "shared";
+
+  const config: Partial<ConsumerConfig> = {
+    ack_policy: AckPolicy.Explicit,
+    filter_subject: subject,
+    max_deliver: options.maxDeliver ?? 3,
+    // Per-instance consumers only need results from now on by default
+    deliver_policy:
+      options.deliverPolicy ??
+      (mode === "shared" ? DeliverPolicy.All : DeliverPolicy.New),
+  };
+  if (options.ackWaitMs !== undefined) {
+    config.ack_wait = nanos(options.ackWaitMs);
+  }
+  // Durable per-instance consumers named after a generated instance ID are
+  // never resumed, so the server removes them if close() does not
+  const temporary =
+    !durable || (mode !== "shared" && options.instanceId === undefined);
+  if (options.inactiveThresholdMs !== undefined || temporary) {
+    config.inactive_threshold = nanos(
+      options.inactiveThresholdMs ?? DEFAULT_INACTIVE_THRESHOLD_MS
+    );
+  }
+  return config;
+}
+
+function streamDrift(
+  desired: Partial<StreamConfig>,
+  current: StreamConfig
+): ConfigDrift[] {
+  const drift: ConfigDrift[] = [];
+  const compare = (
+    field: keyof StreamConfig,
+    mutable: boolean,
+    same = (a: unknown, b: unknown) => a === b
+  ) => {
+    const expected = desired[field];
+    const actual = current[field];
+    if (expected !== undefined && !same(expected, actual)) {
+      drift.push({ field, expected, actual, mutable });
+    }
+  };
+
+  compare("subjects", true, sameSubjects);
+  compare("retention", false);
+  compare("storage", false);
+  compare("num_replicas", true);
+  compare("max_bytes", true);
+  compare("max_age", true);
+  return drift;
+}
+
+function consumerDrift(
+  desired: Partial<ConsumerConfig>,
+  current: ConsumerConfig
+): ConfigDrift[] {
+  const drift: ConfigDrift[] = [];
+  const compare = (field: keyof ConsumerConfig, mutable: boolean) => {
+    const expected = desired[field];
+    const actual = current[field];
+    if (expected !== undefined && expected !== actual) {
+      drift.push({ field, expected, actual, mutable });
+    }
+  };
+
+  compare("filter_subject", true);
+  compare("ack_policy", false);
+  compare("deliver_policy", false);
+  compare("max_deliver", true);
+  compare("ack_wait", true);
+  return drift;
+}
+
+function sameSubjects(a: unknown, b: unknown): boolean {
+  if (!Array.isArray(a) || !Array.isArray(b)) return a === b;
+  const sorted = (subjects: unknown[]) => [...subjects].sort().join(" ");
+  return sorted(a) === sorted(b);
+}
+
+function driftResult(
+  resource: ProvisionResult["resource"],
+  name: string,
+  stream: string,
+  drift: ConfigDrift[]
+): ProvisionResult {
+  return {
+    resource,
+    name,
+    stream,
+    action: drift.length > 0 ? "drifted" : "unchanged",
+    drift,
+  };
+}
+
+function missingResult(
+  resource: ProvisionResult["resource"],
+  name: string,
+  stream: string
+): ProvisionResult {
+  return { resource, name, stream, action: "missing", drift: [] };
+}
+
+async function streamInfo(
+  jsm: JetStreamManager,
+  name: string
+): Promise<StreamConfig | undefined> {
+  try {
+    return (await jsm.streams.info(name)).config;
+  } catch (err) {
+    if (isApiError(err, STREAM_NOT_FOUND)) return undefined;
+    throw err;
+  }
+}
+
+async function consumerInfo(
+  jsm: JetStreamManager,
+  stream: string,
+  name: string
+): Promise<ConsumerConfig | undefined> {
+  try {
+    return (await jsm.consumers.info(stream, name)).config;
+  } catch (err) {
+    if (
+      isApiError(err, CONSUMER_NOT_FOUND) ||
+      isApiError(err, STREAM_NOT_FOUND)
+    ) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+function isApiError(err: unknown, code: number): boolean {
+  return err instanceof NatsError && err.api_error?.err_code === code;
+}
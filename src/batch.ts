@@ -0,0 +1,152 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  SignTransactionParams,
+  SigningResultEvent,
+  WaitOptions,
+} from "./types";
+import { Logger, silentLogger } from "./logger";
+
+export interface SignBatchOptions {
+  concurrency?: number; // Requests in flight at the same time (default: 10)
+  timeoutMs?: number; // Deadline for the whole batch
+  stopOnError?: boolean; // Do not start further requests after a failure
+  signal?: AbortSignal; // Abort requests in flight and skip the rest
+  onProgress?: (progress: SignBatchProgress) => void;
+}
+
+export type SignBatchItemResult =
+  | {
+      index: number;
+      txId: string;
+      walletId: string;
+      status: "success";
+      event: SigningResultEvent;
+    }
+  | {
+      index: number;
+      txId: string;
+      walletId: string;
+      status: "failed";
+      error: unknown;
+    }
+  | {
+      index: number;
+      txId: string;
+      walletId: string;
+      status: "skipped"; // Not sent because of stopOnError, abort or deadline
+    };
+
+export interface SignBatchProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  item: SignBatchItemResult; // The item that just finished
+}
+
+export interface SignBatchResult {
+  items: SignBatchItemResult[]; // In the order of the requests
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Sign a batch of transactions with bounded parallelism
+ * @param sign Function signing one transaction and waiting for its result
+ * @param requests Transactions to sign
+ * @param options Concurrency, deadline and progress options
+ * @param logger Receives errors thrown by onProgress
+ * @returns Per-item results once every item finished or was skipped
+ */
+export async function runSignBatch(
+  sign: (
+    params: SignTransactionParams,
+    options: WaitOptions
+  ) => Promise<SigningResultEvent>,
+  requests: SignTransactionParams[],
+  options: SignBatchOptions = {},
+  logger: Logger = silentLogger
+): Promise<SignBatchResult> {
+  const concurrency = Math.max(1, options.concurrency ?? 10);
+  const deadline =
+    options.timeoutMs !== undefined
+      ? Date.now() + options.timeoutMs
+      : undefined;
+
+  // Assign IDs up front so every result can be matched to its request
+  const items = requests.map((params) => ({
+    ...params,
+    txId: params.txId || uuidv4(),
+  }));
+  const results: SignBatchItemResult[] = new Array(items.length);
+  let next = 0;
+  let succeeded = 0;
+  let failed = 0;
+  let stopped = false;
+
+  const finish = (item: SignBatchItemResult) => {
+    results[item.index] = item;
+    if (item.status === "success") succeeded++;
+    if (item.status === "failed") failed++;
+    try {
+      options.onProgress?.({
+        total: items.length,
+        completed: succeeded + failed,
+        succeeded,
+        failed,
+        item,
+      });
+    } catch (err) {
+      // The item is already recorded; a broken callback must not change it
+      logger.error("Batch onProgress callback threw", {
+        txId: item.txId,
+        walletId: item.walletId,
+        error: err,
+      });
+    }
+  };
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const params = items[index];
+      const base = { index, txId: params.txId, walletId: params.walletId };
+      const remainingMs =
+        deadline !== undefined ? deadline - Date.now() : undefined;
+
+      if (
+        stopped ||
+        options.signal?.aborted ||
+        (remainingMs !== undefined && remainingMs <= 0)
+      ) {
+        results[index] = { ...base, status: "skipped" };
+        continue;
+      }
+
+      let item: SignBatchItemResult;
+      try {
+        const event = await sign(params, {
+          timeoutMs: remainingMs,
+          signal: options.signal,
+        });
+        item = { ...base, status: "success", event };
+      } catch (err) {
+        if (options.stopOnError) stopped = true;
+        item = { ...base, status: "failed", error: err };
+      }
+      finish(item);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+
+  return {
+    items: results,
+    succeeded,
+    failed,
+    skipped: items.length - succeeded - failed,
+  };
+}
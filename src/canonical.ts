@@ -0,0 +1,135 @@
+import { GenerateKeyMessage, SignTxMessage, ResharingMessage } from "./types";
+import { MpciumError } from "./errors";
+
+export type FieldType = "string" | "integer" | "string[]";
+
+/**
+ * Layout of the bytes the initiator signs for a message:
+ * - "json": a JSON object of the listed fields, in order, encoded like Go's
+ *   encoding/json encodes the matching struct
+ * - "raw": the UTF-8 bytes of the single listed string field
+ */
+export interface MessageSchema<T> {
+  name: string;
+  encoding: "json" | "raw";
+  fields: readonly {
+    name: Exclude<keyof T, "signature"> & string;
+    type: FieldType;
+  }[];
+}
+
+type SignedField<T> = Exclude<keyof T, "signature"> & string;
+
+// Fails to compile when a field of T is missing from the schema, so adding
+// a field to a message type forces a decision about its signed bytes
+type Exhaustive<T, F extends readonly { name: SignedField<T> }[]> = Exclude<
+  SignedField<T>,
+  F[number]["name"]
+> extends never
+  ? F
+  : { missingFields: Exclude<SignedField<T>, F[number]["name"]> };
+
+function defineSchema<T>() {
+  return <F extends readonly { name: SignedField<T>; type: FieldType }[]>(
+    name: string,
+    encoding: "json" | "raw",
+    fields: F & Exhaustive<T, F>
+  ): MessageSchema<T> => ({ name, encoding, fields });
+}
+
+// The Go implementation signs the wallet ID directly
+export const GENERATE_KEY_SCHEMA = defineSchema<GenerateKeyMessage>()(
+  "GenerateKeyMessage",
+  "raw",
+  [{ name: "wallet_id", type: "string" }] as const
+);
+
+// Fields in the order of the Go struct
+export const SIGN_TX_SCHEMA = defineSchema<SignTxMessage>()(
+  "SignTxMessage",
+  "json",
+  [
+    { name: "key_type", type: "string" },
+    { name: "wallet_id", type: "string" },
+    { name: "network_internal_code", type: "string" },
+    { name: "tx_id", type: "string" },
+    { name: "tx", type: "string" },
+  ] as const
+);
+
+// Fields in the order of the Go struct
+export const RESHARING_SCHEMA = defineSchema<ResharingMessage>()(
+  "ResharingMessage",
+  "json",
+  [
+    { name: "session_id", type: "string" },
+    { name: "node_ids", type: "string[]" },
+    { name: "new_threshold", type: "integer" },
+    { name: "key_type", type: "string" },
+    { name: "wallet_id", type: "string" },
+  ] as const
+);
+
+/**
+ * Encode the bytes the initiator signs for a message. The signature field
+ * and fields not in the schema are left out.
+ * @throws MpciumError if a field does not have the type of the schema
+ */
+export function canonicalPayload<T>(schema: MessageSchema<T>, msg: T): Buffer {
+  const values = schema.fields.map((field) => {
+    const value = (msg as Record<string, unknown>)[field.name];
+    checkType(schema.name, field.name, field.type, value);
+    return [field.name, value] as const;
+  });
+
+  if (schema.encoding === "raw") {
+    return Buffer.from(values[0][1] as string, "utf8");
+  }
+  const members = values.map(
+    ([name, value]) => `${encodeString(name)}:${encodeValue(value)}`
+  );
+  return Buffer.from(`{${members.join(",")}}`, "utf8");
+}
+
+function checkType(
+  schemaName: string,
+  name: string,
+  type: FieldType,
+  value: unknown
+): void {
+  const valid =
+    type === "string"
+      ? typeof value === "string"
+      : type === "integer"
+      ? Number.isSafeInteger(value)
+      : Array.isArray(value) && value.every((item) => typeof item === "string");
+  if (!valid) {
+    throw new MpciumError(
+      `${schemaName}.${name} must be ${
+        type === "string[]" ? "an array of strings" : `a ${type}`
+      }`
+    );
+  }
+}
+
+function encodeValue(value: unknown): string {
+  if (typeof value === "string") return encodeString(value);
+  if (Array.isArray(value)) return `[${value.map(encodeValue).join(",")}]`;
+  return String(value);
+}
+
+// Characters Go's encoding/json escapes on top of what JSON.stringify does
+const GO_ESCAPES: Record<string, string> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+function encodeString(value: string): string {
+  return JSON.stringify(value).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => GO_ESCAPES[char]
+  );
+}
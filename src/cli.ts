@@ -0,0 +1,284 @@
+import { existsSync, renameSync, writeFileSync } from "fs";
+import { Writable } from "stream";
+import * as readline from "readline";
+import { parseArgs } from "util";
+import { MpciumError } from "./errors";
+import {
+  derivePublicKey,
+  encryptPrivateKey,
+  generatePrivateKey,
+  loadEncryptedPrivateKey,
+  loadPrivateKey,
+} from "./utils";
+
+// Passphrase of the key file being read or written
+export const PASSPHRASE_ENV = "MPCIUM_KEY_PASSPHRASE";
+// New passphrase for `keys reencrypt`
+export const NEW_PASSPHRASE_ENV = "MPCIUM_NEW_KEY_PASSPHRASE";
+
+const DEFAULT_KEY_PATH = "event_initiator.key";
+
+const USAGE = `Usage: mpcium-ts keys <command> [options]
+
+Commands:
+  generate [--out <path>] [--encrypt] [--force]
+      Create a new Ed25519 initiator key and print its public key
+  pubkey <key-file> [--config]
+      Print the public key the MPC nodes configure as event_initiator_pubkey
+  encrypt <key-file> [--out <path>] [--force]
+      Encrypt a hex key file with an age passphrase (default output: <key-file>.age)
+  decrypt <age-file> [--out <path>] [--force]
+      Write the decrypted hex key (default output: <age-file> without .age)
+  reencrypt <age-file>
+      Encrypt an age key file with a new passphrase, in place
+  verify <key-file> [--public-key <hex>]
+      Check that a key file loads, optionally against an expected public key
+
+Files ending in .age, or any file with --encrypted, are read as age files.
+Passphrases are read from ${PASSPHRASE_ENV} and ${NEW_PASSPHRASE_ENV}, or
+prompted for on a terminal.
+`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  out?: string;
+  encrypt?: boolean;
+  encrypted?: boolean;
+  force?: boolean;
+  config?: boolean;
+  "public-key"?: string;
+}
+
+/**
+ * Run the mpcium-ts command line
+ * @param args Arguments after the executable name
+ * @returns Process exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o" },
+        encrypt: { type: "boolean" },
+        encrypted: { type: "boolean" },
+        force: { type: "boolean", short: "f" },
+        config: { type: "boolean" },
+        "public-key": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    const [group, command, ...files] = positionals;
+    if (values.help || !group) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    if (group !== "keys") {
+      throw new UsageError(`Unknown command: ${group}`);
+    }
+    await runKeysCommand(command, files, values);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof MpciumError) {
+      process.stderr.write(`${error.message}\n`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+async function runKeysCommand(
+  command: string | undefined,
+  files: string[],
+  options: CliOptions
+): Promise<void> {
+  switch (command) {
+    case "generate": {
+      noFiles(command, files);
+      const privateKey = generatePrivateKey();
+      const out =
+        options.out ??
+        (options.encrypt ? `${DEFAULT_KEY_PATH}.age` : DEFAULT_KEY_PATH);
+      const contents = options.encrypt
+        ? await encryptPrivateKey(
+            privateKey,
+            await newPassphrase(PASSPHRASE_ENV)
+          )
+        : privateKey.toString("hex");
+      writeKeyFile(out, contents, options.force);
+      process.stderr.write(`Wrote ${out}\n`);
+      printPublicKey(privateKey, options);
+      return;
+    }
+    case "pubkey": {
+      const privateKey = await loadKey(oneFile(command, files), options);
+      printPublicKey(privateKey, options);
+      return;
+    }
+    case "encrypt": {
+      const file = oneFile(command, files);
+      const privateKey = await loadKey(file, { encrypted: false });
+      const out = options.out ?? `${file}.age`;
+      const encrypted = await encryptPrivateKey(
+        privateKey,
+        await newPassphrase(PASSPHRASE_ENV)
+      );
+      writeKeyFile(out, encrypted, options.force);
+      process.stderr.write(`Wrote ${out}\n`);
+      return;
+    }
+    case "decrypt": {
+      const file = oneFile(command, files);
+      const out = options.out ?? file.replace(/\.age$/, "");
+      if (out === file) {
+        throw new UsageError("Pass --out for files not ending in .age");
+      }
+      const privateKey = await loadKey(file, { encrypted: true });
+      writeKeyFile(out, privateKey.toString("hex"), options.force);
+      process.stderr.write(`Wrote ${out}\n`);
+      return;
+    }
+    case "reencrypt": {
+      const file = oneFile(command, files);
+      const privateKey = await loadKey(file, { encrypted: true });
+      const encrypted = await encryptPrivateKey(
+        privateKey,
+        await newPassphrase(NEW_PASSPHRASE_ENV, "New passphrase: ")
+      );
+      // Replace the file in one step so a failure never leaves it half written
+      const tmp = `${file}.${process.pid}.tmp`;
+      writeKeyFile(tmp, encrypted, false);
+      renameSync(tmp, file);
+      process.stderr.write(`Re-encrypted ${file}\n`);
+      return;
+    }
+    case "verify": {
+      const file = oneFile(command, files);
+      const publicKey = derivePublicKey(await loadKey(file, options));
+      const expected = options["public-key"];
+      if (
+        expected !== undefined &&
+        expected.trim().toLowerCase() !== publicKey.toString("hex")
+      ) {
+        throw new MpciumError(
+          `${file} holds public key ${publicKey.toString(
+            "hex"
+          )}, expected ${expected}`
+        );
+      }
+      process.stderr.write(`${file} is a valid initiator key\n`);
+      process.stdout.write(`${publicKey.toString("hex")}\n`);
+      return;
+    }
+    case undefined:
+      throw new UsageError("Missing keys command");
+    default:
+      throw new UsageError(`Unknown keys command: ${command}`);
+  }
+}
+
+/**
+ * Load a hex or age key file the way MpciumClient does and check that it
+ * holds an Ed25519 key
+ */
+async function loadKey(file: string, options: CliOptions): Promise<Buffer> {
+  const encrypted = options.encrypted ?? file.endsWith(".age");
+  const privateKey = encrypted
+    ? await loadEncryptedPrivateKey(
+        file,
+        await passphrase(PASSPHRASE_ENV, `Passphrase for ${file}: `)
+      )
+    : loadPrivateKey(file);
+  derivePublicKey(privateKey);
+  return privateKey;
+}
+
+function printPublicKey(privateKey: Buffer, options: CliOptions): void {
+  const publicKey = derivePublicKey(privateKey).toString("hex");
+  process.stdout.write(
+    options.config
+      ? `event_initiator_pubkey: "${publicKey}"\n`
+      : `${publicKey}\n`
+  );
+}
+
+function writeKeyFile(
+  path: string,
+  contents: string | Uint8Array,
+  force = false
+): void {
+  if (!force && existsSync(path)) {
+    throw new MpciumError(`${path} already exists; pass --force to replace it`);
+  }
+  writeFileSync(path, contents, { mode: 0o600 });
+}
+
+function oneFile(command: string, files: string[]): string {
+  if (files.length !== 1) {
+    throw new UsageError(`keys ${command} takes one key file`);
+  }
+  return files[0];
+}
+
+function noFiles(command: string, files: string[]): void {
+  if (files.length > 0) {
+    throw new UsageError(`keys ${command} takes no files; use --out`);
+  }
+}
+
+async function passphrase(env: string, prompt: string): Promise<string> {
+  const value = process.env[env];
+  if (value) return value;
+  if (!process.stdin.isTTY) {
+    throw new MpciumError(`Set ${env} or run in a terminal to enter it`);
+  }
+  return promptHidden(prompt);
+}
+
+// Asks twice on a terminal so a typo does not lock the key away
+async function newPassphrase(
+  env: string,
+  prompt = "Passphrase: "
+): Promise<string> {
+  const value = await passphrase(env, prompt);
+  if (process.env[env]) return value;
+  if (!value) throw new MpciumError("Passphrase must not be empty");
+  if ((await promptHidden("Repeat passphrase: ")) !== value) {
+    throw new MpciumError("Passphrases do not match");
+  }
+  return value;
+}
+
+function promptHidden(prompt: string): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stderr.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+function isParseArgsError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS_");
+}
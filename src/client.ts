@@ -1,10 +1,10 @@
 import {
   JSONCodec,
   Subscription,
-  RetentionPolicy,
-  AckPolicy,
-  NatsError,
+  headers,
   ConsumerMessages,
+  JsMsg,
+  JetStreamManager,
 } from "nats";
 import { v4 as uuidv4 } from "uuid";
 import {
@@ -14,63 +14,288 @@ import {
   KeygenResultEvent,
   SigningResultEvent,
   ResharingResultEvent,
-  KeyType,
+  SignTransactionParams,
+  ReshareKeysParams,
+  WaitOptions,
+  MpciumClientEvents,
+  ConsumerOptions,
+  PublishResult,
+  TransportPolicy,
+  RequestKind,
+  RecoveredRequests,
+  CloseOptions,
+  CloseResult,
+  ConnectionState,
+  HealthReport,
 } from "./types";
 import {
-  loadPrivateKey,
   signGenerateKeyMessage,
   signSignTxMessage,
   signResharingMessage,
-  loadEncryptedPrivateKey,
 } from "./utils";
 import { MpciumOptions } from "./types";
+import { PendingRequests } from "./pending";
+import { RequestLimiter, RateLimitStats } from "./ratelimit";
+import { MetricsRecorder, METRICS, noopMetrics } from "./metrics";
+import {
+  TracingHook,
+  TraceSpan,
+  TraceContext,
+  noopTracing,
+  injectTraceContext,
+  extractTraceContext,
+  correlationAttributes,
+} from "./tracing";
+import { SignBatchOptions, SignBatchResult, runSignBatch } from "./batch";
+import { JournalEntry, JournalOutcome } from "./journal";
+import { SubjectConfig, resolveSubjects } from "./subjects";
+import { MpciumAdmin, StreamRole, resultConsumerConfig } from "./admin";
+import {
+  RetryPolicy,
+  retry,
+  DEFAULT_PUBLISH_RETRY,
+  DEFAULT_CONSUMER_RETRY,
+  backoffDelay,
+} from "./retry";
+import {
+  TypedEmitter,
+  ResultSubscription,
+  createResultIterator,
+} from "./events";
+import { Logger, silentLogger, withLevel, withRedaction } from "./logger";
+import {
+  MpciumError,
+  KeyLoadError,
+  TransportError,
+  JetStreamUnavailableError,
+  KeygenFailedError,
+  SigningFailedError,
+  ResharingFailedError,
+  MalformedEventError,
+  InvalidEventError,
+  ResultDroppedError,
+  ClientClosedError,
+  RequestRejectedError,
+  PolicyViolationError,
+} from "./errors";
+import { validateResultEvent } from "./validation";
+import { DeadLetterQueue } from "./deadletter";
+import {
+  RequestContext,
+  RequestMiddleware,
+  ResultContext,
+  ResultMiddleware,
+  runMiddleware,
+} from "./middleware";
+import { ReplayResultsOptions, ReplayedResult, replayResults } from "./replay";
+import { TransactionPolicyEngine } from "./policy";
+import { InitiatorSigner, HexFileSigner, AgeFileSigner } from "./signer";
 
 const jc = JSONCodec();
 
-// NATS topics
-const SUBJECTS = {
-  KEYGEN_RESULT: "mpc.mpc_keygen_result.*",
-  SIGNING_RESULT: "mpc.mpc_signing_result.*",
-  RESHARE_RESULT: "mpc.mpc_reshare_result.*",
-  RESHARE_REQUEST: "mpc:reshare",
+// Header used by JetStream to deduplicate published messages
+const MSG_ID_HEADER = "Nats-Msg-Id";
+
+// Bound on remembered requests per kind before old ones are forgotten
+const MAX_ISSUED_REQUESTS = 10000;
+const ISSUED_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface IssuedRequest {
+  kind: RequestKind;
+  id: string;
+  walletId: string;
+  issuedAt: number;
+  trace?: TraceContext; // Context of the publish span
+}
+
+type RequestIds = { walletId?: string; txId?: string; sessionId?: string };
+
+type RequestIdFields = {
+  wallet_id?: string;
+  tx_id?: string;
+  session_id?: string;
+};
+
+interface OutgoingRequest {
+  kind: RequestKind;
+  id: string;
+  subject: string;
+  msg: GenerateKeyMessage | SignTxMessage | ResharingMessage;
+  ids: RequestIds;
+  metadata?: Record<string, unknown>;
+  headers?: Record<string, string>; // Added by request middleware
+}
+
+interface ResultConsumerConfig {
+  durableName?: string; // undefined for ephemeral consumers
+  subject: string;
+  label: string;
+  event: keyof MpciumClientEvents;
+}
+
+/**
+ * Signer for the key file given by keyPath
+ */
+function keyFileSigner(options: MpciumOptions): InitiatorSigner {
+  if (!options.keyPath) {
+    throw new KeyLoadError("Either signer or keyPath must be provided");
+  }
+  // Determine if key is encrypted based on file extension or explicit flag
+  if (!options.encrypted && !options.keyPath.endsWith(".age")) {
+    return new HexFileSigner(options.keyPath);
+  }
+  if (!options.password) {
+    throw new KeyLoadError("Encrypted key detected but no password provided");
+  }
+  return new AgeFileSigner(options.keyPath, options.password);
+}
+
+/**
+ * Result consumers on the result stream for the configured consumer mode
+ */
+function resultConsumers(
+  subjects: SubjectConfig,
+  options: ConsumerOptions,
+  instanceId: string
+): Record<RequestKind, ResultConsumerConfig> {
+  const mode = options.mode ?? "shared";
+  const durable = options.durable ?? true;
+  const durableName = (name: string) => {
+    if (mode === "shared") return name;
+    return durable ? `${name}_${instanceId}` : undefined;
+  };
+
+  return {
+    keygen: {
+      durableName: durableName(subjects.keygenConsumer),
+      subject: subjects.keygenResult,
+      label: "wallet creation",
+      event: "walletCreationResult",
+    },
+    signing: {
+      durableName: durableName(subjects.signingConsumer),
+      subject: subjects.signingResult,
+      label: "signing",
+      event: "signResult",
+    },
+    reshare: {
+      durableName: durableName(subjects.reshareConsumer),
+      subject: subjects.reshareResult,
+      label: "resharing",
+      event: "resharingResult",
+    },
+  };
+}
+
+const EVENT_KINDS: Record<keyof MpciumClientEvents, RequestKind> = {
+  walletCreationResult: "keygen",
+  signResult: "signing",
+  resharingResult: "reshare",
 };
 
 export class MpciumClient {
-  private privateKey: Buffer;
+  private signer: InitiatorSigner;
+  private logger: Logger;
+  private subjects: SubjectConfig;
+  private resultConsumers: Record<RequestKind, ResultConsumerConfig>;
+  private consumerOptions: ConsumerOptions;
+  readonly instanceId: string;
   private subscriptions: (Subscription | ConsumerMessages)[] = [];
+  private consumersReady = new Map<RequestKind, Promise<ConsumerMessages>>();
+  private liveConsumers = new Set<ConsumerMessages>();
+  private lifecycle = new AbortController();
+  private publishRetry: RetryPolicy;
+  private consumerRetry: RetryPolicy;
+  private limiter?: RequestLimiter;
+  private metrics: MetricsRecorder;
+  private tracing: TracingHook;
+  private admin?: MpciumAdmin;
+  // Results that failed validation or processing
+  readonly deadLetters: DeadLetterQueue;
+  private requestMiddleware: RequestMiddleware[];
+  private resultMiddleware: ResultMiddleware[];
+  private policy?: TransactionPolicyEngine;
+  private streamsChecked = new Set<StreamRole>();
+  private jetStreamChecked = false; // Until the connection changes or a publish fails
+  private events = new TypedEmitter<MpciumClientEvents>();
+  private iterators = new Set<AsyncIterableIterator<unknown>>();
+  private issuedRequests: Record<RequestKind, Map<string, IssuedRequest>> = {
+    keygen: new Map(),
+    signing: new Map(),
+    reshare: new Map(),
+  };
+  private idleWaiters: (() => void)[] = [];
+  private closing = false;
+  private connectionState: ConnectionState = "connected";
+  private consumerNames = new Map<RequestKind, string>();
+  private lastResultAt?: number;
+
+  private pendingKeygen = new PendingRequests<KeygenResultEvent>();
+  private pendingSigning = new PendingRequests<SigningResultEvent>();
+  private pendingResharing = new PendingRequests<ResharingResultEvent>();
 
   /**
    * Create a new MpciumClient instance
    */
   static async create(options: MpciumOptions): Promise<MpciumClient> {
-    // Determine if key is encrypted based on file extension or explicit flag
-    const isEncrypted = options.encrypted || options.keyPath.endsWith(".age");
-
-    let privateKey: Buffer;
-
-    if (isEncrypted) {
-      if (!options.password) {
-        throw new Error("Encrypted key detected but no password provided");
-      }
-
-      // Load encrypted key
-      privateKey = await loadEncryptedPrivateKey(
-        options.keyPath,
-        options.password
+    const signer = options.signer ?? keyFileSigner(options);
+    // Surface key loading and signer setup problems here, not on the first request
+    const publicKey = await signer.publicKey();
+    if (publicKey.length !== 32) {
+      throw new KeyLoadError(
+        `Invalid Ed25519 public key length from initiator signer: ${publicKey.length}, expected 32 bytes`
       );
-    } else {
-      // Regular unencrypted key
-      privateKey = loadPrivateKey(options.keyPath);
     }
 
-    return new MpciumClient(options, privateKey);
+    const subjects = resolveSubjects(options.namespace, options.subjects);
+
+    return new MpciumClient(options, signer, subjects);
   }
 
   /**
    * Private constructor - use static create() method instead
    */
-  private constructor(private options: MpciumOptions, privateKey: Buffer) {
-    this.privateKey = privateKey;
+  private constructor(
+    private options: MpciumOptions,
+    signer: InitiatorSigner,
+    subjects: SubjectConfig
+  ) {
+    this.signer = signer;
+    this.subjects = subjects;
+    this.publishRetry = { ...DEFAULT_PUBLISH_RETRY, ...options.retry?.publish };
+    this.consumerRetry = {
+      ...DEFAULT_CONSUMER_RETRY,
+      ...options.retry?.consumer,
+    };
+    this.metrics = options.metrics ?? noopMetrics;
+    this.tracing = options.tracing ?? noopTracing;
+    if (options.rateLimit) {
+      this.limiter = new RequestLimiter(options.rateLimit);
+    }
+    this.consumerOptions = options.consumer ?? {};
+    this.instanceId = this.consumerOptions.instanceId || uuidv4();
+    this.resultConsumers = resultConsumers(
+      subjects,
+      this.consumerOptions,
+      this.instanceId
+    );
+    this.logger = withRedaction(
+      withLevel(options.logger ?? silentLogger, options.logLevel ?? "debug")
+    );
+    this.deadLetters = new DeadLetterQueue(options.nc, subjects);
+    this.requestMiddleware = [...(options.middleware?.request ?? [])];
+    this.resultMiddleware = [...(options.middleware?.result ?? [])];
+    if (options.policy) {
+      this.policy = new TransactionPolicyEngine(options.policy);
+    }
+    if (options.provision ?? true) {
+      this.admin = new MpciumAdmin({
+        nc: options.nc,
+        subjects,
+        streams: options.streams,
+        logger: this.logger,
+      });
+    }
 
     // Set up status monitoring for the NATS connection
     this.monitorConnectionStatus();
@@ -87,26 +312,157 @@ export class MpciumClient {
       for await (const status of nc.status()) {
         switch (status.type) {
           case "error":
-            console.error("NATS connection error:", status.data);
+            this.logger.error("NATS connection error", {
+              data: status.data,
+            });
             break;
           case "disconnect":
-            console.warn("NATS connection disconnected");
+            this.connectionState = "disconnected";
+            this.jetStreamChecked = false;
+            this.logger.warn("NATS connection disconnected", {
+              server: status.data,
+            });
             break;
           case "reconnect":
-            console.log("NATS connection reconnected");
+            this.connectionState = "connected";
+            this.jetStreamChecked = false;
+            this.logger.info("NATS connection reconnected", {
+              server: status.data,
+            });
+            this.restartResultConsumers();
+            break;
+          case "reconnecting":
+            this.connectionState = "reconnecting";
+            this.logger.debug("NATS connection reconnecting");
             break;
           case "ldm":
-            console.warn("NATS in limited downmode");
+            this.logger.warn("NATS in limited downmode");
             break;
           default:
-            console.log(`NATS connection status: ${status.type}`);
+            this.logger.debug("NATS connection status", {
+              status: status.type,
+            });
         }
       }
     })().catch((err) => {
-      console.error("Error monitoring NATS connection status:", err);
+      this.logger.error("Error monitoring NATS connection status", {
+        error: err,
+      });
     });
   }
 
+  /**
+   * Gracefully shut down: stop accepting new requests, wait for the results
+   * of requests already sent (up to the grace period), let the consumers
+   * acknowledge what they received, then unsubscribe
+   * @param options gracePeriodMs (default 30s) and whether to drain the connection
+   * @returns Requests still waiting for a result when the client closed
+   */
+  async close(options: CloseOptions = {}): Promise<CloseResult> {
+    const { gracePeriodMs = 30000, drainConnection = false } = options;
+    this.closing = true;
+    this.limiter?.rejectAll(
+      new ClientClosedError("Client closed before the request was sent")
+    );
+
+    if (gracePeriodMs > 0) {
+      await this.startConsumersForIssued();
+    }
+    if (this.awaitedRequests().length > 0) {
+      this.logger.info("Waiting for in-flight requests before closing", {
+        inFlight: this.awaitedRequests().length,
+        gracePeriodMs,
+      });
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, gracePeriodMs);
+        this.idleWaiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+
+    const outstanding = Object.values(this.issuedRequests).flatMap((issued) =>
+      [...issued.values()].map(({ kind, id, walletId }) => ({
+        kind,
+        id,
+        walletId,
+      }))
+    );
+    if (outstanding.length > 0) {
+      this.logger.warn("Closing with requests still waiting for results", {
+        outstanding: outstanding.length,
+      });
+    }
+
+    // close() lets each consumer finish the message it is processing
+    this.liveConsumers.clear();
+    await Promise.all(
+      this.subscriptions.map(async (sub) => {
+        if (!("unsubscribe" in sub)) await sub.close();
+      })
+    );
+    await this.cleanup();
+    await this.deleteTemporaryConsumers();
+
+    if (drainConnection) {
+      await this.options.nc.drain();
+    }
+    return { outstanding };
+  }
+
+  /**
+   * Start the result consumers of kinds with requests still waiting for a
+   * result, so that the grace period also covers fire-and-forget requests
+   */
+  private async startConsumersForIssued(): Promise<void> {
+    const kinds = (Object.keys(this.issuedRequests) as RequestKind[]).filter(
+      (kind) => this.issuedRequests[kind].size > 0
+    );
+    await Promise.all(
+      kinds.map((kind) =>
+        this.runResultConsumer(kind).catch((err) => {
+          this.logger.warn("Could not start result consumer before closing", {
+            kind,
+            error: err,
+          });
+        })
+      )
+    );
+  }
+
+  /**
+   * Delete per-instance durable consumers named after a generated instance
+   * ID; no later client can resume them
+   */
+  private async deleteTemporaryConsumers(): Promise<void> {
+    const mode = this.consumerOptions.mode ?? "shared";
+    if (
+      mode === "shared" ||
+      this.consumerOptions.durable === false ||
+      this.consumerOptions.instanceId
+    ) {
+      return;
+    }
+    const names = [...this.consumerNames.values()];
+    this.consumerNames.clear();
+    if (names.length === 0) return;
+    try {
+      const jsm = await this.options.nc.jetstreamManager();
+      await Promise.all(
+        names.map((name) =>
+          jsm.consumers.delete(this.subjects.resultStream, name)
+        )
+      );
+    } catch (err) {
+      this.reportError(
+        new TransportError(`Failed to delete result consumers: ${err}`, {
+          cause: err,
+        })
+      );
+    }
+  }
+
   /**
    * Cleanly unsubscribe from all NATS subscriptions
    */
@@ -121,91 +477,191 @@ export class MpciumClient {
       }
     }
     this.subscriptions = [];
-    console.log("Cleaned up all subscriptions");
+    this.consumersReady.clear();
+    this.liveConsumers.clear();
+
+    // Stop consumer setup retries still in progress
+    this.lifecycle.abort();
+    this.lifecycle = new AbortController();
+
+    // End open iterators and drop listeners bound to the stopped consumers
+    for (const iterator of [...this.iterators]) {
+      iterator.return?.();
+    }
+    this.events.removeAllListeners();
+
+    // Nothing will settle pending requests once the consumers are stopped
+    const reason = new MpciumError(
+      "Client cleaned up before a result was received"
+    );
+    this.pendingKeygen.rejectAll(reason);
+    this.pendingSigning.rejectAll(reason);
+    this.pendingResharing.rejectAll(reason);
+    this.limiter?.rejectAll(reason);
+    this.logger.debug("Cleaned up all subscriptions");
   }
 
   /**
-   * Check if JetStream is available
+   * Number of requests waiting for the rate limiter and in flight
    */
-  private async checkJetStreamAvailability(): Promise<boolean> {
-    const { nc } = this.options;
-    try {
-      const jsm = await nc.jetstreamManager();
-      await jsm.getAccountInfo();
-      return true;
-    } catch (err) {
-      console.error("JetStream is not available:", err);
-      return false;
-    }
+  queueStats(): RateLimitStats {
+    return this.limiter?.stats() ?? { queued: 0, inFlight: 0 };
   }
 
   /**
-   * Ensure JetStream streams exist for publishing
+   * Report whether the client is able to send requests and receive results
+   * @returns Connection, JetStream, stream and consumer state
    */
-  private async ensureStreamsExist(): Promise<void> {
+  async health(): Promise<HealthReport> {
     const { nc } = this.options;
+    const now = Date.now();
+    const connection: HealthReport["connection"] = {
+      state: nc.isClosed() ? "closed" : this.connectionState,
+      server: nc.getServer(),
+    };
 
-    // Check if JetStream is available first
-    const jsAvailable = await this.checkJetStreamAvailability();
-    if (!jsAvailable) {
-      throw new Error(
-        "JetStream is not available. Please enable JetStream on your NATS server."
-      );
-    }
-
-    const jsm = await nc.jetstreamManager();
+    const report: HealthReport = {
+      healthy: false,
+      connection,
+      jetstream: { available: false },
+      streams: [],
+      consumers: [],
+      lastResultAt: this.lastResultAt,
+      lastResultAgeMs:
+        this.lastResultAt !== undefined ? now - this.lastResultAt : undefined,
+      checkedAt: now,
+    };
+    if (connection.state !== "connected") return report;
 
-    // Ensure keygen stream exists
+    // A failed probe belongs in the report, not in the client's error log
+    let jsm: JetStreamManager;
     try {
-      await jsm.streams.info("mpc-keygen");
-    } catch {
+      jsm = await nc.jetstreamManager();
+      await jsm.getAccountInfo();
+      report.jetstream.available = true;
+    } catch (err) {
+      report.jetstream.error = String(err);
+      return report;
+    }
+    const { resultStream, keygenStream, signingStream } = this.subjects;
+
+    for (const name of [resultStream, keygenStream, signingStream]) {
       try {
-        await jsm.streams.add({
-          name: "mpc-keygen",
-          subjects: ["mpc.keygen_request.*"],
-          retention: RetentionPolicy.Workqueue,
-          max_bytes: 100 * 1024 * 1024,
+        const info = await jsm.streams.info(name);
+        report.streams.push({
+          name,
+          exists: true,
+          subjects: info.config.subjects,
+          retention: info.config.retention,
+          storage: info.config.storage,
+          replicas: info.config.num_replicas,
+          messages: info.state.messages,
+          bytes: info.state.bytes,
         });
-        console.log("Created mpc-keygen stream");
       } catch (err) {
-        if (err instanceof NatsError && err.api_error?.err_code === 10065) {
-          console.warn("mpc-keygen stream subjects overlap; proceeding");
-        } else {
-          throw err;
-        }
+        report.streams.push({ name, exists: false, error: String(err) });
       }
     }
 
-    // Ensure signing stream exists
-    try {
-      await jsm.streams.info("mpc-signing");
-    } catch {
+    for (const [kind, name] of this.consumerNames) {
+      if (!this.consumersReady.has(kind)) continue;
       try {
-        await jsm.streams.add({
-          name: "mpc-signing",
-          subjects: ["mpc.signing_request.*"],
-          retention: RetentionPolicy.Workqueue,
-          max_bytes: 100 * 1024 * 1024,
+        const info = await jsm.consumers.info(resultStream, name);
+        report.consumers.push({
+          kind,
+          name,
+          exists: true,
+          pending: info.num_pending,
+          ackPending: info.num_ack_pending,
+          redelivered: info.num_redelivered,
+          waiting: info.num_waiting,
         });
-        console.log("Created mpc-signing stream");
       } catch (err) {
-        if (err instanceof NatsError && err.api_error?.err_code === 10065) {
-          console.warn("mpc-signing stream subjects overlap; proceeding");
-        } else {
-          throw err;
-        }
+        report.consumers.push({
+          kind,
+          name,
+          exists: false,
+          error: String(err),
+        });
       }
     }
+
+    report.healthy =
+      report.streams.every((stream) => stream.exists) &&
+      report.consumers.every((consumer) => consumer.exists);
+    return report;
+  }
+
+  /**
+   * Check if JetStream is available
+   */
+  private async checkJetStreamAvailability(): Promise<boolean> {
+    const { nc } = this.options;
+    try {
+      const jsm = await nc.jetstreamManager();
+      await jsm.getAccountInfo();
+      return true;
+    } catch (err) {
+      this.logger.error("JetStream is not available", { error: err });
+      return false;
+    }
+  }
+
+  /**
+   * Ensure JetStream streams exist for publishing; JetStream itself is
+   * checked once until the connection changes or a publish fails
+   */
+  private async ensureStreamsExist(): Promise<void> {
+    if (!this.jetStreamChecked) {
+      const jsAvailable = await this.checkJetStreamAvailability();
+      if (!jsAvailable) {
+        throw new JetStreamUnavailableError(
+          "JetStream is not available. Please enable JetStream on your NATS server."
+        );
+      }
+      this.jetStreamChecked = true;
+    }
+
+    await this.ensureStreams(["keygen", "signing"]);
+  }
+
+  /**
+   * Provision streams with the admin unless provisioning is disabled; each
+   * stream is checked once until a publish or consumer setup fails
+   */
+  private async ensureStreams(roles: StreamRole[]): Promise<void> {
+    if (!this.admin) return;
+    const unchecked = roles.filter((role) => !this.streamsChecked.has(role));
+    if (unchecked.length === 0) return;
+
+    await this.admin.ensureStreams(unchecked);
+    unchecked.forEach((role) => this.streamsChecked.add(role));
   }
 
   /**
    * Create a new MPC wallet
    * @param walletId Optional wallet ID (generates UUID if not provided)
+   * @param metadata Optional caller data stored in the request journal
    * @returns The wallet ID
    */
-  async createWallet(walletId?: string): Promise<string> {
-    const { nc } = this.options;
+  async createWallet(
+    walletId?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<string> {
+    const { id } = await this.publishKeygenRequest(walletId, metadata);
+    return id;
+  }
 
+  /**
+   * Publish a wallet creation request
+   * @param walletId Optional wallet ID (generates UUID if not provided)
+   * @param metadata Optional caller data stored in the request journal
+   * @returns The wallet ID and how the request was published
+   */
+  async publishKeygenRequest(
+    walletId?: string,
+    metadata?: Record<string, unknown>
+  ): Promise<PublishResult> {
     // Generate a wallet ID if not provided
     const id = walletId || uuidv4();
 
@@ -214,24 +670,12 @@ export class MpciumClient {
       wallet_id: id,
     };
 
-    // Sign the message and convert Buffer to base64 string
-    const signatureBuffer = await signGenerateKeyMessage(msg, this.privateKey);
-    msg.signature = signatureBuffer.toString("base64");
-
-    try {
-      // Try JetStream first
-      await this.ensureStreamsExist();
-      const js = nc.jetstream();
-      await js.publish(`mpc.keygen_request.${walletId}`, jc.encode(msg));
-      console.log(`CreateWallet request sent via JetStream for wallet: ${id}`);
-    } catch (err) {
-      // Fall back to core NATS if JetStream is not available
-      console.warn("JetStream not available, falling back to core NATS", err);
-      nc.publish("mpc.keygen_request", jc.encode(msg));
-      console.log(`CreateWallet request sent via core NATS for wallet: ${id}`);
-    }
-
-    return id;
+    return this.runRequestMiddleware({
+      kind: "keygen",
+      message: msg,
+      metadata,
+      headers: {},
+    });
   }
 
   /**
@@ -239,15 +683,20 @@ export class MpciumClient {
    * @param params Transaction parameters
    * @returns Transaction ID
    */
-  async signTransaction(params: {
-    walletId: string;
-    keyType: KeyType;
-    networkInternalCode: string;
-    tx: string;
-  }): Promise<string> {
-    const { nc } = this.options;
+  async signTransaction(params: SignTransactionParams): Promise<string> {
+    const { id } = await this.publishSigningRequest(params);
+    return id;
+  }
 
-    const txId = uuidv4();
+  /**
+   * Publish a transaction signing request
+   * @param params Transaction parameters
+   * @returns The transaction ID and how the request was published
+   */
+  async publishSigningRequest(
+    params: SignTransactionParams
+  ): Promise<PublishResult> {
+    const txId = params.txId || uuidv4();
 
     // Create the message
     const msg: SignTxMessage = {
@@ -258,28 +707,12 @@ export class MpciumClient {
       tx: params.tx,
     };
 
-    // Sign the message and convert Buffer to base64 string
-    const signatureBuffer = await signSignTxMessage(msg, this.privateKey);
-    msg.signature = signatureBuffer.toString("base64");
-
-    try {
-      // Try JetStream first
-      await this.ensureStreamsExist();
-      const js = nc.jetstream();
-      await js.publish(`mpc.signing_request.${txId}`, jc.encode(msg));
-      console.log(
-        `SignTransaction request sent via JetStream for txID: ${txId}`
-      );
-    } catch (err) {
-      // Fall back to core NATS if JetStream is not available
-      console.warn("JetStream not available, falling back to core NATS");
-      nc.publish(`mpc.signing_request.${txId}`, jc.encode(msg));
-      console.log(
-        `SignTransaction request sent via core NATS for txID: ${txId}`
-      );
-    }
-
-    return txId;
+    return this.runRequestMiddleware({
+      kind: "signing",
+      message: msg,
+      metadata: params.metadata,
+      headers: {},
+    });
   }
 
   /**
@@ -287,15 +720,19 @@ export class MpciumClient {
    * @param params Resharing parameters
    * @returns Session ID
    */
-  async reshareKeys(params: {
-    sessionId?: string;
-    walletId: string;
-    nodeIds: string[];
-    newThreshold: number;
-    keyType: KeyType;
-  }): Promise<string> {
-    const { nc } = this.options;
+  async reshareKeys(params: ReshareKeysParams): Promise<string> {
+    const { id } = await this.publishResharingRequest(params);
+    return id;
+  }
 
+  /**
+   * Publish a key resharing request
+   * @param params Resharing parameters
+   * @returns The session ID and how the request was published
+   */
+  async publishResharingRequest(
+    params: ReshareKeysParams
+  ): Promise<PublishResult> {
     // Generate session ID if not provided
     const sessionId = params.sessionId || uuidv4();
 
@@ -308,224 +745,1329 @@ export class MpciumClient {
       key_type: params.keyType,
     };
 
-    console.log("msg", msg);
-
-    // Sign the message and convert Buffer to base64 string
-    const signatureBuffer = await signResharingMessage(msg, this.privateKey);
-    msg.signature = signatureBuffer.toString("base64");
+    return this.runRequestMiddleware({
+      kind: "reshare",
+      message: msg,
+      metadata: params.metadata,
+      headers: {},
+    });
+  }
 
-    // Use core NATS to publish (matching Go implementation)
-    nc.publish(SUBJECTS.RESHARE_REQUEST, jc.encode(msg));
-    console.log(`Resharing request sent for session: ${sessionId}`);
+  /**
+   * Add a middleware run for every outgoing request before it is signed
+   * @returns Function removing the middleware
+   */
+  useRequestMiddleware(middleware: RequestMiddleware): () => void {
+    this.requestMiddleware.push(middleware);
+    return () => removeItem(this.requestMiddleware, middleware);
+  }
 
-    return sessionId;
+  /**
+   * Add a middleware run for every incoming result before it settles
+   * pending requests and reaches listeners
+   * @returns Function removing the middleware
+   */
+  useResultMiddleware(middleware: ResultMiddleware): () => void {
+    this.resultMiddleware.push(middleware);
+    return () => removeItem(this.resultMiddleware, middleware);
   }
 
-  onWalletCreationResult(callback: (event: KeygenResultEvent) => void): void {
-    const { nc } = this.options;
-    const consumerName = `mpc_keygen_result`;
+  /**
+   * Pass a request through the request middleware, then sign and publish it
+   */
+  private async runRequestMiddleware(
+    ctx: RequestContext
+  ): Promise<PublishResult> {
+    const id = requestId(ctx);
+    const reached = await runMiddleware(
+      this.requestMiddleware,
+      ctx,
+      async () => {
+        if (requestId(ctx) !== id) {
+          throw new MpciumError(
+            `Request middleware must not change the ID of ${ctx.kind} request ${id}`
+          );
+        }
+        ctx.result = await this.signAndPublish(ctx);
+      }
+    );
+    if (!reached || !ctx.result) {
+      throw new RequestRejectedError(
+        `${ctx.kind} request ${id} was rejected by a request middleware`,
+        requestErrorIds(ctx)
+      );
+    }
+    return ctx.result;
+  }
 
-    (async () => {
-      const js = nc.jetstream(); // for pub/sub
-      const jsm = await nc.jetstreamManager(); // for admin
+  /**
+   * Sign a request with the initiator key and publish it
+   */
+  private async signAndPublish(ctx: RequestContext): Promise<PublishResult> {
+    const { metadata, headers } = ctx;
+    switch (ctx.kind) {
+      case "keygen": {
+        const msg = ctx.message;
+        // Sign the message and convert Buffer to base64 string
+        const signature = await signGenerateKeyMessage(msg, this.signer);
+        msg.signature = signature.toString("base64");
 
-      // 1) Ensure the MAIN stream exists (by name)
-      try {
-        await jsm.streams.info("mpc");
-      } catch {
-        // 2) Try to add it—but ignore the "subject-overlap" error
+        return this.publishRequest({
+          kind: "keygen",
+          id: msg.wallet_id,
+          subject: `${this.subjects.keygenRequest}.${msg.wallet_id}`,
+          msg,
+          ids: { walletId: msg.wallet_id },
+          metadata,
+          headers,
+        });
+      }
+      case "signing": {
+        const msg = ctx.message;
+        // Checked after the middleware so that it sees the final message
+        const undoUsage = this.enforcePolicy(msg);
         try {
-          await jsm.streams.add({
-            name: "mpc",
-            subjects: [SUBJECTS.KEYGEN_RESULT],
-            retention: RetentionPolicy.Interest,
-            max_bytes: 100 * 1024 * 1024,
+          const signature = await signSignTxMessage(msg, this.signer);
+          msg.signature = signature.toString("base64");
+
+          return await this.publishRequest({
+            kind: "signing",
+            id: msg.tx_id,
+            subject: `${this.subjects.signingRequest}.${msg.tx_id}`,
+            msg,
+            ids: { walletId: msg.wallet_id, txId: msg.tx_id },
+            metadata,
+            headers,
           });
         } catch (err) {
-          console.error("Error creating stream adding:", err);
-          // NatsError.err_code 10065 → "subjects overlap with an existing stream"
-          if (err instanceof NatsError && err.api_error?.err_code === 10065) {
-            console.warn(
-              "Stream subjects overlap; proceeding without re-creating stream"
-            );
-          } else {
-            throw err; // re-throw anything else
-          }
+          // A request that was never signed or sent does not count against limits
+          undoUsage();
+          throw err;
         }
       }
+      case "reshare": {
+        const msg = ctx.message;
+        this.logger.debug("Signing resharing request", {
+          sessionId: msg.session_id,
+          walletId: msg.wallet_id,
+          nodeIds: msg.node_ids,
+          newThreshold: msg.new_threshold,
+        });
+        const signature = await signResharingMessage(msg, this.signer);
+        msg.signature = signature.toString("base64");
 
-      try {
-        await jsm.consumers.info("mpc", consumerName);
-        // already there—skip jsm.consumers.add()
-      } catch {
-        // 2) Create durable consumer
-        await jsm.consumers.add("mpc", {
-          durable_name: consumerName,
-          ack_policy: AckPolicy.Explicit,
-          filter_subject: SUBJECTS.KEYGEN_RESULT,
-          max_deliver: 3,
+        // Nodes subscribe to resharing requests on core NATS (matching Go implementation)
+        return this.publishRequest(
+          {
+            kind: "reshare",
+            id: msg.session_id,
+            subject: this.subjects.reshareRequest,
+            msg,
+            ids: { walletId: msg.wallet_id, sessionId: msg.session_id },
+            metadata,
+            headers,
+          },
+          "core-only"
+        );
+      }
+    }
+  }
+
+  /**
+   * Check a signing request against the transaction policy and count it
+   * against the wallet's limits
+   * @returns Function taking the request back out of the usage
+   */
+  private enforcePolicy(msg: SignTxMessage): () => void {
+    if (!this.policy) return () => undefined;
+    try {
+      return this.policy.enforce(msg);
+    } catch (err) {
+      if (err instanceof PolicyViolationError) {
+        this.metrics.increment(METRICS.policyViolations, { rule: err.rule });
+        this.logger.warn("Signing request rejected by policy", {
+          walletId: msg.wallet_id,
+          txId: msg.tx_id,
+          networkInternalCode: msg.network_internal_code,
+          rule: err.rule,
+          reason: err.violation.message,
         });
       }
+      throw err;
+    }
+  }
 
-      // 4) now fetch that consumer and **consume()**
-      const consumer = await js.consumers.get("mpc", consumerName);
-      console.log("Subscribed to wallet creation results (consume mode)");
+  /**
+   * Publish a signed request according to the transport policy. The
+   * Nats-Msg-Id header is derived from the request ID so that a retried
+   * publish is deduplicated by the stream.
+   */
+  private async publishRequest(
+    request: OutgoingRequest,
+    transport: TransportPolicy = this.options.transport ?? "prefer-jetstream"
+  ): Promise<PublishResult> {
+    const { kind, id, msg } = request;
+    if (this.closing) {
+      throw new ClientClosedError(
+        `Client is closing; ${kind} request ${id} not sent`,
+        {
+          ...request.ids,
+        }
+      );
+    }
 
-      const sub = await consumer.consume(); // ← await here
-      this.subscriptions.push(sub);
+    const span = this.tracing.startSpan(`mpcium ${kind} publish`, {
+      kind: "producer",
+      attributes: {
+        "messaging.system": "nats",
+        "messaging.destination.name": request.subject,
+        ...correlationAttributes(msg),
+      },
+    });
+    try {
+      if (this.limiter?.limitsInFlight) {
+        await this.startSlotReleasingConsumer(kind);
+      }
+      await this.limiter?.acquire(kind, id, msg.wallet_id);
+      let sent = false;
+      try {
+        await this.recordInJournal(request);
+        // Track before sending: the result may arrive before the publish returns
+        this.trackIssued(kind, id, msg.wallet_id, span.context());
 
-      for await (const m of sub) {
+        let result: PublishResult;
         try {
-          const event = jc.decode(m.data) as KeygenResultEvent;
-          callback(event);
-          m.ack();
+          result = await this.sendRequest(request, transport, span.context());
         } catch (err) {
-          console.error("Error processing wallet creation message:", err);
-          m.term();
+          this.issuedRequests[kind].delete(id);
+          this.metrics.increment(METRICS.publishFailures, { kind });
+          this.completeInJournal(kind, id, {
+            status: "failed",
+            error: String(err),
+          });
+          throw err;
         }
+        sent = true;
+        span.setAttributes({ "mpcium.transport": result.transport });
+        return result;
+      } finally {
+        // The slot of a request that was never sent is free again
+        if (!sent) this.limiter?.release(kind, id);
       }
-    })().catch((err) => {
-      console.error(
-        "Error setting up JetStream consumer for wallet creation:",
-        err
+    } catch (err) {
+      span.recordError(err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * In-flight slots are released when results arrive, so the result
+   * consumer has to run even for requests nobody waits for
+   */
+  private async startSlotReleasingConsumer(kind: RequestKind): Promise<void> {
+    try {
+      await this.ensureResultConsumer(kind);
+    } catch (err) {
+      this.logger.warn(
+        "Result consumer unavailable; in-flight slots are only freed after inFlightTtlMs",
+        { kind, error: err }
       );
-    });
+    }
   }
 
-  onSignResult(callback: (event: SigningResultEvent) => void): void {
+  private async sendRequest(
+    request: OutgoingRequest,
+    transport: TransportPolicy,
+    trace: TraceContext
+  ): Promise<PublishResult> {
     const { nc } = this.options;
-    const consumerName = `mpc_signing_result`;
-
-    (async () => {
-      const js = nc.jetstream(); // for pub/sub
-      const jsm = await nc.jetstreamManager(); // for admin
+    const { kind, id, subject, msg, ids } = request;
+    const msgId = `${kind}:${id}`;
+    const data = jc.encode(msg);
+    const h = headers();
+    for (const [key, value] of Object.entries(request.headers ?? {})) {
+      h.set(key, value);
+    }
+    injectTraceContext(h, trace);
 
-      // 1) Ensure the MAIN stream exists (by name)
+    if (transport !== "core-only") {
       try {
-        await jsm.streams.info("mpc");
-      } catch {
-        // 2) Try to add it—but ignore the "subject-overlap" error
-        try {
-          await jsm.streams.add({
-            name: "mpc",
-            subjects: [SUBJECTS.SIGNING_RESULT],
-            retention: RetentionPolicy.Interest,
-            max_bytes: 100 * 1024 * 1024,
-          });
-        } catch (err) {
-          console.error("Error creating stream adding:", err);
-          // NatsError.err_code 10065 → "subjects overlap with an existing stream"
-          if (err instanceof NatsError && err.api_error?.err_code === 10065) {
-            console.warn(
-              "Stream subjects overlap; proceeding without re-creating stream"
-            );
-          } else {
-            throw err; // re-throw anything else
+        // A missing JetStream is not retried: fall back or fail at once
+        await this.ensureStreamsExist();
+        // Retrying is safe: the stream drops duplicates of the same msgID
+        const ack = await retry(
+          async () => {
+            await this.ensureStreams(["keygen", "signing"]);
+            return nc
+              .jetstream()
+              .publish(subject, data, { msgID: msgId, headers: h });
+          },
+          this.publishRetry,
+          {
+            onRetry: (err, attempt, delayMs) => {
+              // The stream may have been deleted: check it again
+              this.streamsChecked.clear();
+              this.jetStreamChecked = false;
+              this.logger.warn("Retrying JetStream publish", {
+                ...ids,
+                subject,
+                attempt,
+                delayMs,
+                error: err,
+              });
+            },
           }
-        }
-      }
+        );
 
-      try {
-        await jsm.consumers.info("mpc", consumerName);
-        // already there—skip jsm.consumers.add()
-      } catch {
-        // 2) Create durable consumer
-        await jsm.consumers.add("mpc", {
-          durable_name: consumerName,
-          ack_policy: AckPolicy.Explicit,
-          filter_subject: SUBJECTS.SIGNING_RESULT,
-          max_deliver: 3,
+        if (ack.duplicate) {
+          this.logger.warn("Request was already published; ignored by stream", {
+            ...ids,
+            subject,
+            stream: ack.stream,
+            seq: ack.seq,
+          });
+        } else {
+          this.logger.info("Request sent via JetStream", {
+            ...ids,
+            subject,
+            stream: ack.stream,
+            seq: ack.seq,
+          });
+        }
+        this.metrics.increment(METRICS.requestsSent, {
+          kind,
+          transport: "jetstream",
+        });
+        return { id, subject, transport: "jetstream", ack };
+      } catch (err) {
+        this.jetStreamChecked = false;
+        if (transport === "jetstream-only") {
+          throw err instanceof TransportError
+            ? err
+            : new TransportError(
+                `JetStream publish to ${subject} failed: ${err}`,
+                { ...ids, cause: err }
+              );
+        }
+        // Fall back to core NATS if JetStream is not available
+        this.logger.warn("JetStream not available, falling back to core NATS", {
+          ...ids,
+          subject,
+          error: err,
         });
       }
+    }
 
-      // 4) now fetch that consumer and **consume()**
-      const consumer = await js.consumers.get("mpc", consumerName);
-      console.log("Subscribed to signing results (consume mode)");
-
-      const sub = await consumer.consume(); // ← await here
-      this.subscriptions.push(sub);
-
-      for await (const m of sub) {
-        try {
-          const event = jc.decode(m.data) as SigningResultEvent;
-          callback(event);
-          m.ack();
-        } catch (err) {
-          console.error("Error processing message:", err);
-          m.term();
+    h.set(MSG_ID_HEADER, msgId);
+    try {
+      nc.publish(subject, data, { headers: h });
+    } catch (err) {
+      throw new TransportError(
+        `Core NATS publish to ${subject} failed: ${err}`,
+        {
+          ...ids,
+          cause: err,
         }
-      }
-    })().catch((err) => {
-      console.error("Error setting up JetStream consumer:", err);
-    });
+      );
+    }
+    this.logger.info("Request sent via core NATS", { ...ids, subject });
+
+    this.metrics.increment(METRICS.requestsSent, { kind, transport: "core" });
+    return { id, subject, transport: "core" };
   }
 
   /**
-   * Listen for resharing results
-   * @param callback Function to handle resharing results
+   * Re-attach requests left pending in the journal by a previous process:
+   * their result consumers are started so results complete the journal
+   * entries and reach the listeners again. Requests older than journalTtlMs
+   * are marked failed in the journal, returned as expired and not
+   * re-attached.
+   * @returns Re-attached and expired journal entries
    */
-  onResharingResult(callback: (event: ResharingResultEvent) => void): void {
-    const { nc } = this.options;
-    const consumerName = `mpc_reshare_result`;
+  async recoverPendingRequests(): Promise<RecoveredRequests> {
+    const { journal, journalTtlMs } = this.options;
+    const recovered: RecoveredRequests = { reattached: [], expired: [] };
+    if (!journal) return recovered;
+
+    const now = Date.now();
+    const kinds = new Set<RequestKind>();
+    for (const entry of await journal.pending()) {
+      if (journalTtlMs !== undefined && now - entry.createdAt > journalTtlMs) {
+        // Mark it failed so the next recovery does not report it again
+        await journal.complete(entry.kind, entry.id, {
+          status: "failed",
+          error: `No result within journalTtlMs (${journalTtlMs} ms)`,
+        });
+        recovered.expired.push(entry);
+        continue;
+      }
+      recovered.reattached.push(entry);
+      kinds.add(entry.kind);
+      this.trackIssued(entry.kind, entry.id, entry.message.wallet_id);
+    }
+
+    for (const kind of kinds) {
+      await this.ensureResultConsumer(kind);
+    }
+
+    this.logger.info("Recovered pending requests from journal", {
+      reattached: recovered.reattached.length,
+      expired: recovered.expired.length,
+    });
+    return recovered;
+  }
+
+  /**
+   * Create a new MPC wallet and wait for its keygen result
+   * @param walletId Optional wallet ID (generates UUID if not provided)
+   * @param options Optional timeout and abort signal
+   * @returns The keygen result event for the wallet
+   */
+  async createWalletAndWait(
+    walletId?: string,
+    options: WaitOptions = {}
+  ): Promise<KeygenResultEvent> {
+    const id = walletId || uuidv4();
+
+    return this.publishAndWait("keygen", this.pendingKeygen, id, options, () =>
+      this.createWallet(id)
+    );
+  }
+
+  /**
+   * Sign a transaction using MPC and wait for the signing result
+   * @param params Transaction parameters
+   * @param options Optional timeout and abort signal
+   * @returns The signing result event for the transaction
+   */
+  async signTransactionAndWait(
+    params: SignTransactionParams,
+    options: WaitOptions = {}
+  ): Promise<SigningResultEvent> {
+    const txId = params.txId || uuidv4();
+
+    return this.publishAndWait(
+      "signing",
+      this.pendingSigning,
+      txId,
+      options,
+      () => this.signTransaction({ ...params, txId })
+    );
+  }
+
+  /**
+   * Initiate resharing of MPC keys and wait for the resharing result
+   * @param params Resharing parameters
+   * @param options Optional timeout and abort signal
+   * @returns The resharing result event for the session
+   */
+  async reshareKeysAndWait(
+    params: ReshareKeysParams,
+    options: WaitOptions = {}
+  ): Promise<ResharingResultEvent> {
+    const sessionId = params.sessionId || uuidv4();
+
+    return this.publishAndWait(
+      "reshare",
+      this.pendingResharing,
+      sessionId,
+      options,
+      () => this.reshareKeys({ ...params, sessionId })
+    );
+  }
+
+  /**
+   * Sign many transactions with bounded parallelism and collect the results
+   * @param requests Transactions to sign
+   * @param options Concurrency, batch deadline, stopOnError and progress callback
+   * @returns Per-item success, failure or skipped results
+   */
+  async signBatch(
+    requests: SignTransactionParams[],
+    options: SignBatchOptions = {}
+  ): Promise<SignBatchResult> {
+    return runSignBatch(
+      (params, waitOptions) => this.signTransactionAndWait(params, waitOptions),
+      requests,
+      options,
+      this.logger
+    );
+  }
+
+  /**
+   * Register a pending request before publishing it, so a result arriving
+   * before the publish returns is not missed
+   */
+  private async publishAndWait<T>(
+    kind: RequestKind,
+    pending: PendingRequests<T>,
+    id: string,
+    options: WaitOptions,
+    publish: () => Promise<string>
+  ): Promise<T> {
+    // Nothing is published for a request the caller could not wait for,
+    // checked again in case it was aborted or the ID was taken meanwhile
+    pending.assertCanWait(id, options);
+    await this.ensureResultConsumer(kind);
+    pending.assertCanWait(id, options);
+
+    const result = pending.wait(id, options);
+    // Rejections are surfaced to the caller through the returned promise
+    result.catch(() => undefined);
+
+    try {
+      await publish();
+    } catch (err) {
+      pending.reject(id, err);
+    }
+
+    return result;
+  }
+
+  /**
+   * Listen for wallet creation results
+   * @param callback Function to handle keygen results
+   * @returns Subscription stopping this listener only
+   */
+  onWalletCreationResult(
+    callback: (event: KeygenResultEvent) => void
+  ): ResultSubscription {
+    return this.on("walletCreationResult", callback);
+  }
+
+  /**
+   * Listen for signing results
+   * @param callback Function to handle signing results
+   * @returns Subscription stopping this listener only
+   */
+  onSignResult(
+    callback: (event: SigningResultEvent) => void
+  ): ResultSubscription {
+    return this.on("signResult", callback);
+  }
+
+  /**
+   * Listen for resharing results
+   * @param callback Function to handle resharing results
+   * @returns Subscription stopping this listener only
+   */
+  onResharingResult(
+    callback: (event: ResharingResultEvent) => void
+  ): ResultSubscription {
+    return this.on("resharingResult", callback);
+  }
+
+  /**
+   * Add a listener for a result event. All listeners of an event share one
+   * durable consumer, which is stopped when the last of them unsubscribes.
+   * @param event Event name
+   * @param listener Function called with every result of that kind
+   * @returns Subscription stopping this listener only
+   */
+  on<K extends keyof MpciumClientEvents>(
+    event: K,
+    listener: (event: MpciumClientEvents[K]) => void
+  ): ResultSubscription {
+    const kind = EVENT_KINDS[event];
+    const remove = this.events.on(event, listener);
+    this.ensureResultConsumer(kind).catch((err) => this.reportError(err));
+
+    let active = true;
+    return {
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        remove();
+        this.releaseResultConsumer(kind);
+      },
+    };
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof MpciumClientEvents>(
+    event: K,
+    listener: (event: MpciumClientEvents[K]) => void
+  ): void {
+    this.events.off(event, listener);
+    this.releaseResultConsumer(EVENT_KINDS[event]);
+  }
+
+  /**
+   * Iterate over wallet creation results with for await
+   * @param options Optional signal ending the iteration
+   */
+  walletCreationResults(
+    options: { signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<KeygenResultEvent> {
+    return this.results("walletCreationResult", options.signal);
+  }
+
+  /**
+   * Iterate over signing results with for await
+   * @param options Optional signal ending the iteration
+   */
+  signResults(
+    options: { signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<SigningResultEvent> {
+    return this.results("signResult", options.signal);
+  }
+
+  /**
+   * Iterate over resharing results with for await
+   * @param options Optional signal ending the iteration
+   */
+  resharingResults(
+    options: { signal?: AbortSignal } = {}
+  ): AsyncIterableIterator<ResharingResultEvent> {
+    return this.results("resharingResult", options.signal);
+  }
+
+  /**
+   * Read results already stored in the result stream, e.g. those published
+   * before this service had a consumer. Uses an ordered ephemeral consumer,
+   * so durable result consumers are not affected.
+   * @param options Kind, time (since), stream sequence and wallet filters
+   * @returns Past results, oldest first, ending at the end of the stream
+   */
+  replayResults(
+    options: ReplayResultsOptions = {}
+  ): AsyncGenerator<ReplayedResult> {
+    return replayResults(this.options.nc, this.subjects, options, {
+      validate: this.options.validateResults ?? true,
+      onInvalid: (err) => this.reportError(err),
+    });
+  }
+
+  private results<K extends keyof MpciumClientEvents>(
+    event: K,
+    signal?: AbortSignal
+  ): AsyncIterableIterator<MpciumClientEvents[K]> {
+    const iterator = createResultIterator<MpciumClientEvents[K]>((push) => {
+      const subscription = this.on(event, push);
+      return {
+        unsubscribe: () => {
+          this.iterators.delete(iterator);
+          subscription.unsubscribe();
+        },
+      };
+    }, signal);
+    // An iterator for an aborted signal is finished without subscribing
+    if (!signal?.aborted) this.iterators.add(iterator);
+    return iterator;
+  }
+
+  /**
+   * Start the durable consumer for a result kind once and share it between
+   * all listeners and pending requests
+   */
+  private async ensureResultConsumer(kind: RequestKind): Promise<void> {
+    if (this.closing) {
+      throw new ClientClosedError("Client is closed");
+    }
+    await this.runResultConsumer(kind);
+  }
+
+  /**
+   * Start the consumer for a result kind unless it is running already
+   */
+  private async runResultConsumer(kind: RequestKind): Promise<void> {
+    let ready = this.consumersReady.get(kind);
+    if (!ready) {
+      ready = this.startResultConsumer(kind);
+      this.consumersReady.set(kind, ready);
+      // Allow a later call to retry if setup failed
+      ready.catch(() => this.consumersReady.delete(kind));
+    }
+    await ready;
+  }
+
+  /**
+   * Stop the consumer for a result kind once nothing is listening for it or
+   * waiting on it anymore
+   */
+  private releaseResultConsumer(kind: RequestKind): void {
+    const config = this.resultConsumers[kind];
+    if (
+      this.events.listenerCount(config.event) > 0 ||
+      this.pendingFor(kind).size > 0
+    ) {
+      return;
+    }
+
+    this.stopResultConsumer(kind);
+  }
+
+  /**
+   * Stop the consumer for a result kind, whether it is running or still
+   * being set up
+   */
+  private stopResultConsumer(kind: RequestKind): void {
+    const config = this.resultConsumers[kind];
+    const ready = this.consumersReady.get(kind);
+    if (!ready) return;
+    this.consumersReady.delete(kind);
+
+    ready
+      .then((sub) => {
+        this.liveConsumers.delete(sub);
+        sub.stop();
+        this.subscriptions = this.subscriptions.filter((s) => s !== sub);
+        this.logger.debug(`Stopped ${config.label} result consumer`, {
+          consumer: config.durableName,
+        });
+      })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Re-create every running result consumer, e.g. after a reconnect where
+   * an ephemeral consumer may have been removed by the server
+   */
+  private restartResultConsumers(): void {
+    for (const kind of [...this.consumersReady.keys()]) {
+      this.stopResultConsumer(kind);
+      this.ensureResultConsumer(kind).catch((err) => this.reportError(err));
+    }
+  }
+
+  private pendingFor(kind: RequestKind): PendingRequests<unknown> {
+    switch (kind) {
+      case "keygen":
+        return this.pendingKeygen;
+      case "signing":
+        return this.pendingSigning;
+      case "reshare":
+        return this.pendingResharing;
+    }
+  }
+
+  private async startResultConsumer(
+    kind: RequestKind
+  ): Promise<ConsumerMessages> {
+    const config = this.resultConsumers[kind];
+
+    let sub: ConsumerMessages;
+    try {
+      sub = await retry(
+        () => this.setUpResultConsumer(kind),
+        this.consumerRetry,
+        {
+          signal: this.lifecycle.signal,
+          onRetry: (err, attempt, delayMs) => {
+            this.streamsChecked.clear();
+            this.logger.warn(`Retrying ${config.label} consumer setup`, {
+              attempt,
+              delayMs,
+              error: err,
+            });
+          },
+        }
+      );
+    } catch (err) {
+      throw new TransportError(
+        `Error setting up JetStream consumer for ${config.label} results: ${err}`,
+        { cause: err }
+      );
+    }
+    this.subscriptions.push(sub);
+    this.liveConsumers.add(sub);
 
     (async () => {
-      const js = nc.jetstream(); // for pub/sub
-      const jsm = await nc.jetstreamManager(); // for admin
+      for await (const m of sub) {
+        this.lastResultAt = Date.now();
+        this.recordDeliveryMetrics(kind, m);
+        await this.handleResult(kind, m);
+      }
+    })()
+      .catch((err) => {
+        this.reportError(
+          new TransportError(
+            `Error consuming ${config.label} results: ${err}`,
+            { cause: err }
+          )
+        );
+      })
+      .then(() => {
+        // The consumer ended without being stopped by the client: set it up again
+        if (!this.liveConsumers.delete(sub)) return;
+        this.logger.warn(`${config.label} result consumer ended; restarting`, {
+          consumer: config.durableName,
+        });
+        this.consumersReady.delete(kind);
+        this.ensureResultConsumer(kind).catch((err) => this.reportError(err));
+      });
+
+    return sub;
+  }
 
+  /**
+   * Decode and dispatch one result message inside a consumer span, then ack
+   * it; messages that cannot be processed are reported and terminated
+   */
+  private async handleResult(kind: RequestKind, m: JsMsg): Promise<void> {
+    const { label } = this.resultConsumers[kind];
+    let span: TraceSpan | undefined;
+    let ids: RequestIdFields | undefined;
+    try {
+      const result = decodeResult(m.data, m.subject);
+      ids = result.data as RequestIdFields;
+      span = this.tracing.startSpan(`mpcium ${kind} result`, {
+        kind: "consumer",
+        // Results published without trace headers join the request's trace
+        parent:
+          extractTraceContext(m.headers) ??
+          this.findIssued(kind, resultId(kind, ids), ids.wallet_id)?.trace,
+        attributes: {
+          "messaging.system": "nats",
+          "messaging.destination.name": m.subject,
+          ...correlationAttributes(ids),
+        },
+      });
+      this.validateResult(kind, result);
+
+      const ctx = {
+        kind,
+        event: result.data,
+        subject: m.subject,
+        headers: m.headers,
+      } as ResultContext;
+      const deliver = () =>
+        runMiddleware(this.resultMiddleware, ctx, async () => {
+          this.dispatchResult(kind, { data: ctx.event, subject: ctx.subject });
+        });
+      const delivered = await (this.tracing.withSpan
+        ? this.tracing.withSpan(span, deliver)
+        : deliver());
+      m.ack();
+      // A dropped result never settles its request: fail it instead
+      const id = resultId(kind, ids);
+      if (!delivered && id) {
+        this.failRequest(
+          kind,
+          ids,
+          new ResultDroppedError(
+            `${kind} result ${id} was dropped by a result middleware`,
+            {
+              walletId: ids.wallet_id,
+              txId: ids.tx_id,
+              sessionId: ids.session_id,
+            }
+          )
+        );
+      }
+    } catch (err) {
+      const error =
+        err instanceof MpciumError
+          ? err
+          : new MpciumError(`Error processing ${label} message: ${err}`, {
+              cause: err,
+            });
+      span?.recordError(error);
+      this.reportError(error);
+      await this.handleFailedResult(kind, m, error, ids);
+    } finally {
+      span?.end();
+    }
+  }
+
+  /**
+   * Redeliver a result that failed to process, unless it is malformed or
+   * out of attempts; those are dead-lettered if enabled and terminated
+   */
+  private async handleFailedResult(
+    kind: RequestKind,
+    m: JsMsg,
+    error: MpciumError,
+    ids?: RequestIdFields
+  ): Promise<void> {
+    const maxDeliver = this.consumerOptions.maxDeliver ?? 3;
+    const deliveries = m.info.redeliveryCount;
+    if (!(error instanceof MalformedEventError) && deliveries < maxDeliver) {
+      m.nak(backoffDelay(this.consumerRetry, deliveries));
+      return;
+    }
+
+    if (this.options.deadLetter) {
       try {
-        await jsm.streams.info("mpc");
-      } catch {
-        try {
-          await jsm.streams.add({
-            name: "mpc",
-            subjects: [SUBJECTS.RESHARE_RESULT],
-            retention: RetentionPolicy.Workqueue,
-            max_bytes: 100 * 1024 * 1024,
-          });
-        } catch (err) {
-          console.error("Error creating stream adding:", err);
-          if (err instanceof NatsError && err.api_error?.err_code === 10065) {
-            console.warn(
-              "Stream subjects overlap; proceeding without re-creating stream"
-            );
-          } else {
-            throw err; // re-throw anything else
-          }
+        await this.ensureStreams(["deadLetter"]);
+        const ack = await this.deadLetters.publish(kind, m, error.message);
+        this.logger.warn("Result moved to dead-letter stream", {
+          subject: m.subject,
+          seq: m.seq,
+          deadLetterSeq: ack.seq,
+          reason: error.message,
+        });
+      } catch (err) {
+        if (deliveries < maxDeliver) {
+          // Keep the message in the result stream and try again later
+          this.reportError(err);
+          m.nak(backoffDelay(this.consumerRetry, deliveries));
+          return;
         }
+        // The server will not redeliver it, so the result is gone
+        this.reportError(
+          new TransportError(
+            `Dropped result on ${m.subject} (seq ${m.seq}) after it could not be moved to the dead-letter stream: ${error.message}`,
+            { cause: err }
+          )
+        );
       }
+    }
+    m.term();
+    this.metrics.increment(METRICS.terminated, { kind });
+    this.failRequest(kind, ids, error);
+  }
+
+  /**
+   * Reject the request a terminated result belongs to: its result will not
+   * arrive again
+   */
+  private failRequest(
+    kind: RequestKind,
+    ids: RequestIdFields | undefined,
+    error: MpciumError
+  ): void {
+    const id = ids && resultId(kind, ids);
+    if (!id) return;
+    this.pendingFor(kind).reject(id, error);
+    this.completeInJournal(kind, id, {
+      status: "failed",
+      error: error.message,
+    });
+    this.settleIssued(kind, id, ids.wallet_id ?? "");
+  }
 
+  private async setUpResultConsumer(
+    kind: RequestKind
+  ): Promise<ConsumerMessages> {
+    const { nc } = this.options;
+    const config = this.resultConsumers[kind];
+    const stream = this.subjects.resultStream;
+
+    const js = nc.jetstream(); // for pub/sub
+    const jsm = await nc.jetstreamManager(); // for admin
+
+    // 1) Ensure the result stream exists
+    await this.ensureStreams(["results"]);
+
+    const consumerConfig = resultConsumerConfig(
+      config.subject,
+      this.consumerOptions,
+      config.durableName !== undefined
+    );
+    let consumerName: string;
+
+    if (config.durableName) {
+      consumerName = config.durableName;
       try {
-        await jsm.consumers.info("mpc", consumerName);
-      } catch {
-        await jsm.consumers.add("mpc", {
+        await jsm.consumers.info(stream, consumerName);
+        // already there—skip jsm.consumers.add()
+      } catch (err) {
+        if (!this.admin) {
+          throw new TransportError(
+            `Durable consumer ${consumerName} on stream ${stream} is not available and provisioning is disabled; create it with MpciumAdmin`,
+            { cause: err }
+          );
+        }
+        // 2) Create durable consumer
+        await jsm.consumers.add(stream, {
+          ...consumerConfig,
           durable_name: consumerName,
-          ack_policy: AckPolicy.Explicit,
-          filter_subject: SUBJECTS.RESHARE_RESULT,
-          max_deliver: 3,
         });
       }
+    } else {
+      // 2) Create an ephemeral consumer, removed by the server once inactive
+      const info = await jsm.consumers.add(stream, consumerConfig);
+      consumerName = info.name;
+    }
 
-      const consumer = await js.consumers.get("mpc", consumerName);
-      console.log("Subscribed to resharing results (consume mode)");
+    // 3) now fetch that consumer and **consume()**
+    const consumer = await js.consumers.get(stream, consumerName);
+    this.consumerNames.set(kind, consumerName);
+    this.logger.info(`Subscribed to ${config.label} results (consume mode)`, {
+      consumer: consumerName,
+      subject: config.subject,
+      mode: this.consumerOptions.mode ?? "shared",
+    });
 
-      const sub = await consumer.consume(); // ← await here
-      this.subscriptions.push(sub);
+    return consumer.consume();
+  }
 
-      for await (const m of sub) {
-        try {
-          const event = jc.decode(m.data) as ResharingResultEvent;
-          callback(event);
-          m.ack();
-        } catch (err) {
-          console.error("Error processing resharing message:", err);
-          m.term();
+  /**
+   * Count redeliveries and record how many results the consumer still has
+   * to deliver
+   */
+  private recordDeliveryMetrics(kind: RequestKind, m: JsMsg): void {
+    if (m.redelivered) {
+      this.metrics.increment(METRICS.redeliveries, { kind });
+    }
+    this.metrics.gauge(METRICS.consumerPending, m.info.pending, { kind });
+  }
+
+  private recordResultMetrics(
+    kind: RequestKind,
+    event: { result_type?: unknown; error_code?: string },
+    issued?: IssuedRequest
+  ): void {
+    const resultType = String(event.result_type ?? "unknown");
+    this.metrics.increment(METRICS.results, {
+      kind,
+      result_type: resultType,
+      error_code: event.error_code ?? "",
+    });
+    if (issued) {
+      this.metrics.observe(
+        METRICS.requestDuration,
+        (Date.now() - issued.issuedAt) / 1000,
+        { kind, result_type: resultType }
+      );
+    }
+  }
+
+  /**
+   * Whether listeners should see a result: in filtered mode only results
+   * of requests issued by this client are delivered
+   */
+  private isDeliverable(issuedHere: boolean): boolean {
+    return this.consumerOptions.mode !== "filtered" || issuedHere;
+  }
+
+  /**
+   * Remember a request issued by this client until its result arrives
+   */
+  private trackIssued(
+    kind: RequestKind,
+    id: string,
+    walletId: string,
+    trace?: TraceContext
+  ): void {
+    const issued = this.issuedRequests[kind];
+    if (issued.size >= MAX_ISSUED_REQUESTS) {
+      // Results consumed by other clients never settle here; forget old ones
+      const cutoff = Date.now() - ISSUED_REQUEST_TTL_MS;
+      for (const [key, request] of issued) {
+        if (request.issuedAt < cutoff) issued.delete(key);
+      }
+    }
+    issued.set(id, { kind, id, walletId, issuedAt: Date.now(), trace });
+  }
+
+  /**
+   * Find the issued request a result belongs to
+   */
+  private findIssued(
+    kind: RequestKind,
+    id: string | undefined,
+    walletId: string | undefined
+  ): IssuedRequest | undefined {
+    const issued = this.issuedRequests[kind];
+    const request = id !== undefined ? issued.get(id) : undefined;
+    if (request || kind !== "reshare") return request;
+
+    // Resharing results without a session ID are matched by wallet
+    for (const candidate of issued.values()) {
+      if (candidate.walletId === walletId) return candidate;
+    }
+    return undefined;
+  }
+
+  /**
+   * Forget an issued request once its result arrived
+   * @returns The request if it was issued by this client
+   */
+  private settleIssued(
+    kind: RequestKind,
+    id: string | undefined,
+    walletId: string
+  ): IssuedRequest | undefined {
+    const request = this.findIssued(kind, id, walletId);
+    if (!request) return undefined;
+
+    this.issuedRequests[kind].delete(request.id);
+    // By the issued ID: reshare results may not echo the session ID
+    this.limiter?.release(kind, request.id);
+    if (this.idleWaiters.length > 0 && this.awaitedRequests().length === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+    return request;
+  }
+
+  /**
+   * Issued requests whose results can still arrive through a running consumer
+   */
+  private awaitedRequests(): IssuedRequest[] {
+    const kinds = [...this.consumersReady.keys()];
+    return kinds.flatMap((kind) => [...this.issuedRequests[kind].values()]);
+  }
+
+  /**
+   * Check a result against the schema of its kind unless disabled
+   */
+  private validateResult(kind: RequestKind, result: DecodedResult): void {
+    if (!(this.options.validateResults ?? true)) return;
+
+    const issues = validateResultEvent(kind, result.data);
+    if (issues.length > 0) {
+      const ids = result.data as RequestIdFields;
+      throw new InvalidEventError(result.subject, issues, {
+        walletId: ids.wallet_id,
+        txId: ids.tx_id,
+        sessionId: ids.session_id,
+      });
+    }
+  }
+
+  /**
+   * Settle the matching pending request, then notify every listener
+   */
+  private dispatchResult(kind: RequestKind, result: DecodedResult): void {
+    const { data, subject } = result;
+    switch (kind) {
+      case "keygen": {
+        const event = data as KeygenResultEvent;
+        requireField(event, "wallet_id", subject);
+        settlePending(this.pendingKeygen, event.wallet_id, event, () => {
+          return new KeygenFailedError(event);
+        });
+        this.completeResultInJournal(kind, event.wallet_id, event);
+        const issued = this.settleIssued(
+          kind,
+          event.wallet_id,
+          event.wallet_id
+        );
+        this.recordResultMetrics(kind, event, issued);
+        if (this.isDeliverable(issued !== undefined)) {
+          this.emitResult("walletCreationResult", event);
         }
+        break;
       }
-    })().catch((err) => {
-      console.error(
-        "Error setting up JetStream consumer for resharing results:",
-        err
+      case "signing": {
+        const event = data as SigningResultEvent;
+        requireField(event, "tx_id", subject);
+        settlePending(this.pendingSigning, event.tx_id, event, () => {
+          return new SigningFailedError(event);
+        });
+        this.completeResultInJournal(kind, event.tx_id, event);
+        const issued = this.settleIssued(kind, event.tx_id, event.wallet_id);
+        this.recordResultMetrics(kind, event, issued);
+        if (this.isDeliverable(issued !== undefined)) {
+          this.emitResult("signResult", event);
+        }
+        break;
+      }
+      case "reshare": {
+        const event = data as ResharingResultEvent;
+        requireField(event, "wallet_id", subject);
+        // Correlation requires the node to echo the session ID
+        if (event.session_id) {
+          settlePending(this.pendingResharing, event.session_id, event, () => {
+            return new ResharingFailedError(event);
+          });
+          this.completeResultInJournal(kind, event.session_id, event);
+        }
+        const issued = this.settleIssued(
+          kind,
+          event.session_id,
+          event.wallet_id
+        );
+        this.recordResultMetrics(kind, event, issued);
+        if (this.isDeliverable(issued !== undefined)) {
+          this.emitResult("resharingResult", event);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Record an outgoing request in the journal before it is published
+   */
+  private async recordInJournal(request: OutgoingRequest): Promise<void> {
+    const { journal } = this.options;
+    if (!journal) return;
+
+    try {
+      await journal.record({
+        kind: request.kind,
+        id: request.id,
+        message: request.msg,
+        metadata: request.metadata,
+        status: "pending",
+        createdAt: Date.now(),
+      });
+    } catch (err) {
+      throw new MpciumError(
+        `Failed to record request ${request.id} in journal: ${err}`,
+        { ...request.ids, cause: err }
+      );
+    }
+  }
+
+  private completeResultInJournal(
+    kind: RequestKind,
+    id: string,
+    event: { result_type?: unknown; error_reason?: string }
+  ): void {
+    this.completeInJournal(
+      kind,
+      id,
+      event.result_type === "error"
+        ? { status: "failed", result: event, error: event.error_reason }
+        : { status: "completed", result: event }
+    );
+  }
+
+  private completeInJournal(
+    kind: RequestKind,
+    id: string,
+    outcome: JournalOutcome
+  ): void {
+    const { journal } = this.options;
+    if (!journal) return;
+
+    journal.complete(kind, id, outcome).catch((err) => {
+      this.reportError(
+        new MpciumError(`Failed to complete request ${id} in journal: ${err}`, {
+          cause: err,
+        })
       );
     });
   }
+
+  /**
+   * Notify listeners; a throwing listener is reported without affecting the
+   * other listeners or the acknowledgement of the message
+   */
+  private emitResult<K extends keyof MpciumClientEvents>(
+    event: K,
+    payload: MpciumClientEvents[K]
+  ): void {
+    for (const err of this.events.emit(event, payload)) {
+      this.reportError(
+        new MpciumError(`Error in ${event} listener: ${err}`, { cause: err })
+      );
+    }
+  }
+
+  /**
+   * Report an asynchronous failure that cannot be thrown to a caller
+   */
+  private reportError(err: unknown): void {
+    const error =
+      err instanceof MpciumError
+        ? err
+        : new MpciumError(String(err), { cause: err });
+
+    if (this.options.onError) {
+      this.options.onError(error);
+    } else {
+      this.logger.error(error.message, { error });
+    }
+  }
+}
+
+interface DecodedResult {
+  data: unknown;
+  subject: string;
+}
+
+function decodeResult(payload: Uint8Array, subject: string): DecodedResult {
+  let data: unknown;
+  try {
+    data = jc.decode(payload);
+  } catch (err) {
+    throw new MalformedEventError(
+      `Result on ${subject} is not valid JSON`,
+      subject,
+      { cause: err }
+    );
+  }
+  if (typeof data !== "object" || data === null) {
+    throw new MalformedEventError(
+      `Result on ${subject} is not a JSON object`,
+      subject
+    );
+  }
+  return { data, subject };
+}
+
+/**
+ * ID of the request a result answers: wallet, transaction or session ID
+ */
+function resultId(kind: RequestKind, ids: RequestIdFields): string | undefined {
+  switch (kind) {
+    case "keygen":
+      return ids.wallet_id;
+    case "signing":
+      return ids.tx_id;
+    case "reshare":
+      return ids.session_id;
+  }
+}
+
+/**
+ * ID of an outgoing request: wallet, transaction or session ID
+ */
+function requestId(ctx: RequestContext): string {
+  switch (ctx.kind) {
+    case "keygen":
+      return ctx.message.wallet_id;
+    case "signing":
+      return ctx.message.tx_id;
+    case "reshare":
+      return ctx.message.session_id;
+  }
+}
+
+function requestErrorIds(ctx: RequestContext): RequestIds {
+  switch (ctx.kind) {
+    case "keygen":
+      return { walletId: ctx.message.wallet_id };
+    case "signing":
+      return { walletId: ctx.message.wallet_id, txId: ctx.message.tx_id };
+    case "reshare":
+      return {
+        walletId: ctx.message.wallet_id,
+        sessionId: ctx.message.session_id,
+      };
+  }
+}
+
+function removeItem<T>(items: T[], item: T): void {
+  const index = items.indexOf(item);
+  if (index >= 0) items.splice(index, 1);
+}
+
+function requireField<T extends object>(
+  event: T,
+  field: keyof T & string,
+  subject: string
+): void {
+  if (typeof event[field] !== "string" || event[field] === "") {
+    throw new MalformedEventError(
+      `Result on ${subject} is missing ${field}`,
+      subject
+    );
+  }
+}
+
+/**
+ * Resolve a pending request with its result event, or reject it when the
+ * event reports an error
+ */
+function settlePending<T extends { result_type?: unknown }>(
+  pending: PendingRequests<T>,
+  id: string,
+  event: T,
+  failure: () => MpciumError
+): void {
+  if (event.result_type === "error") {
+    pending.reject(id, failure());
+  } else {
+    pending.resolve(id, event);
+  }
 }
@@ -0,0 +1,244 @@
+import {
+  NatsConnection,
+  NatsError,
+  JsMsg,
+  PubAck,
+  StoredMsg,
+  StreamState,
+  headers,
+} from "nats";
+import { RequestKind } from "./types";
+import { SubjectConfig } from "./subjects";
+import { TransportError } from "./errors";
+
+// Headers describing why and where a result was dead-lettered
+export const DEAD_LETTER_HEADERS = {
+  reason: "Mpcium-Dead-Letter-Reason",
+  kind: "Mpcium-Result-Kind",
+  subject: "Mpcium-Original-Subject",
+  sequence: "Mpcium-Original-Sequence",
+  deliveries: "Mpcium-Delivery-Count",
+  failedAt: "Mpcium-Failed-At",
+} as const;
+
+// Header used by JetStream to deduplicate published messages
+const MSG_ID_HEADER = "Nats-Msg-Id";
+
+const MAX_REASON_LENGTH = 1024;
+
+// JetStream API error codes
+const STREAM_NOT_FOUND = 10059;
+const NO_MESSAGE_FOUND = 10037;
+
+export interface DeadLetter {
+  seq: number; // Sequence in the dead-letter stream
+  kind: RequestKind;
+  subject: string; // Subject the result was originally published on
+  originalSeq?: number; // Sequence in the result stream
+  reason: string;
+  deliveryCount: number;
+  failedAt: number; // Epoch milliseconds
+  data: Uint8Array; // Original payload
+  event?: unknown; // Decoded payload, if it is JSON
+}
+
+export interface DeadLetterListOptions {
+  kind?: RequestKind;
+  limit?: number; // Default: 100
+  startSeq?: number; // First dead-letter sequence to read
+}
+
+/**
+ * Dead-letter stream of result messages that failed validation or
+ * processing. Entries keep the original payload and headers so they can
+ * be inspected and replayed onto their original subject.
+ */
+export class DeadLetterQueue {
+  constructor(private nc: NatsConnection, private subjects: SubjectConfig) {}
+
+  /**
+   * Publish a failed result message to the dead-letter subject
+   * @param kind Kind of result the message was consumed as
+   * @param m The failed message
+   * @param reason Why it failed
+   */
+  async publish(kind: RequestKind, m: JsMsg, reason: string): Promise<PubAck> {
+    const h = headers();
+    for (const [key, values] of m.headers ?? []) {
+      values.forEach((value) => h.append(key, value));
+    }
+    h.set(DEAD_LETTER_HEADERS.reason, sanitizeHeader(reason));
+    h.set(DEAD_LETTER_HEADERS.kind, kind);
+    h.set(DEAD_LETTER_HEADERS.subject, m.subject);
+    h.set(DEAD_LETTER_HEADERS.sequence, String(m.seq));
+    h.set(DEAD_LETTER_HEADERS.deliveries, String(m.info.redeliveryCount));
+    h.set(DEAD_LETTER_HEADERS.failedAt, new Date().toISOString());
+
+    try {
+      return await this.nc
+        .jetstream()
+        .publish(this.subjects.deadLetter, m.data, {
+          headers: h,
+          // Publishing the same failure twice keeps one entry
+          msgID: `${m.info.stream}:${m.seq}`,
+        });
+    } catch (err) {
+      throw new TransportError(
+        `Publishing to dead-letter subject ${this.subjects.deadLetter} failed: ${err}`,
+        { cause: err }
+      );
+    }
+  }
+
+  /**
+   * List dead-lettered results, oldest first
+   * @param options Kind filter, page size and first sequence
+   */
+  async list(options: DeadLetterListOptions = {}): Promise<DeadLetter[]> {
+    const stream = this.subjects.deadLetterStream;
+    const limit = options.limit ?? 100;
+    const jsm = await this.nc.jetstreamManager();
+
+    let state: StreamState;
+    try {
+      state = (await jsm.streams.info(stream)).state;
+    } catch (err) {
+      if (isApiError(err, STREAM_NOT_FOUND)) return [];
+      throw err;
+    }
+
+    const entries: DeadLetter[] = [];
+    const first = Math.max(state.first_seq, options.startSeq ?? 0);
+    for (
+      let seq = first;
+      seq <= state.last_seq && entries.length < limit;
+      seq++
+    ) {
+      const entry = await this.get(seq);
+      if (entry && (!options.kind || entry.kind === options.kind)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Get a dead-lettered result
+   * @returns The entry, or undefined if it was removed
+   */
+  async get(seq: number): Promise<DeadLetter | undefined> {
+    const jsm = await this.nc.jetstreamManager();
+    try {
+      const msg = await jsm.streams.getMessage(this.subjects.deadLetterStream, {
+        seq,
+      });
+      return toDeadLetter(msg);
+    } catch (err) {
+      if (isApiError(err, NO_MESSAGE_FOUND)) return undefined;
+      throw err;
+    }
+  }
+
+  /**
+   * Publish a dead-lettered result again on its original subject, so the
+   * result consumers process it once more
+   * @param seq Sequence in the dead-letter stream
+   * @param options remove: delete the entry once replayed (default: true)
+   */
+  async replay(
+    seq: number,
+    options: { remove?: boolean } = {}
+  ): Promise<PubAck> {
+    const jsm = await this.nc.jetstreamManager();
+    let msg: StoredMsg;
+    try {
+      msg = await jsm.streams.getMessage(this.subjects.deadLetterStream, {
+        seq,
+      });
+    } catch (err) {
+      throw new TransportError(`Dead letter ${seq} not found: ${err}`, {
+        cause: err,
+      });
+    }
+
+    const subject = msg.header?.get(DEAD_LETTER_HEADERS.subject);
+    if (!subject) {
+      throw new TransportError(
+        `Dead letter ${seq} has no ${DEAD_LETTER_HEADERS.subject} header`
+      );
+    }
+
+    const h = headers();
+    for (const [key, values] of msg.header ?? []) {
+      // Drop the dead-letter headers and the original message ID, which
+      // the result stream would treat as a duplicate
+      if (isDeadLetterHeader(key) || key === MSG_ID_HEADER) continue;
+      values.forEach((value) => h.append(key, value));
+    }
+
+    const ack = await this.nc
+      .jetstream()
+      .publish(subject, msg.data, { headers: h });
+    if (options.remove ?? true) {
+      await this.remove(seq);
+    }
+    return ack;
+  }
+
+  /**
+   * Delete a dead-lettered result
+   * @returns false if it did not exist
+   */
+  async remove(seq: number): Promise<boolean> {
+    const jsm = await this.nc.jetstreamManager();
+    try {
+      return await jsm.streams.deleteMessage(
+        this.subjects.deadLetterStream,
+        seq
+      );
+    } catch (err) {
+      if (isApiError(err, NO_MESSAGE_FOUND)) return false;
+      throw err;
+    }
+  }
+}
+
+function toDeadLetter(msg: StoredMsg): DeadLetter {
+  const header = (key: string) => msg.header?.get(key) ?? "";
+  const originalSeq = parseInt(header(DEAD_LETTER_HEADERS.sequence), 10);
+  const failedAt = Date.parse(header(DEAD_LETTER_HEADERS.failedAt));
+
+  let event: unknown;
+  try {
+    event = msg.json();
+  } catch {
+    event = undefined;
+  }
+
+  return {
+    seq: msg.seq,
+    kind: header(DEAD_LETTER_HEADERS.kind) as RequestKind,
+    subject: header(DEAD_LETTER_HEADERS.subject),
+    originalSeq: Number.isNaN(originalSeq) ? undefined : originalSeq,
+    reason: header(DEAD_LETTER_HEADERS.reason),
+    deliveryCount: parseInt(header(DEAD_LETTER_HEADERS.deliveries), 10) || 0,
+    failedAt: Number.isNaN(failedAt) ? msg.time.getTime() : failedAt,
+    data: msg.data,
+    event,
+  };
+}
+
+function isDeadLetterHeader(key: string): boolean {
+  return Object.values(DEAD_LETTER_HEADERS).some(
+    (header) => header.toLowerCase() === key.toLowerCase()
+  );
+}
+
+// Header values cannot contain line breaks
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").slice(0, MAX_REASON_LENGTH);
+}
+
+function isApiError(err: unknown, code: number): boolean {
+  return err instanceof NatsError && err.api_error?.err_code === code;
+}
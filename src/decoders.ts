@@ -0,0 +1,401 @@
+/**
+ * A transfer found in a transaction payload
+ */
+export interface DecodedTransfer {
+  destination: string; // Address in the chain's usual text form
+  amount: bigint; // Base units (wei, lamports, planck or token units)
+  asset?: string; // Token contract or asset ID; undefined for the native coin
+}
+
+export interface DecodedTransaction {
+  transfers: DecodedTransfer[];
+  complete: boolean; // false if parts of the payload were not understood
+}
+
+/**
+ * Extracts transfers from the payload of a signing request
+ */
+export interface ChainDecoder {
+  name: string;
+  supports(networkInternalCode: string): boolean;
+  /** @returns undefined if the payload is not a format this decoder reads */
+  decode(
+    payload: Uint8Array,
+    networkInternalCode: string
+  ): DecodedTransaction | undefined;
+}
+
+const hex = (bytes: Uint8Array) => `0x${Buffer.from(bytes).toString("hex")}`;
+
+const prefixMatcher = (prefixes: string[]) => (networkInternalCode: string) =>
+  prefixes.some((prefix) => networkInternalCode.startsWith(prefix));
+
+// ---------------------------------------------------------------------------
+// Ethereum
+
+// transfer(address,uint256)
+const ERC20_TRANSFER = "a9059cbb";
+
+type RlpItem = Uint8Array | RlpItem[];
+
+/**
+ * Decoder for unsigned Ethereum transactions (legacy, EIP-2930 and
+ * EIP-1559). Payloads that are only the 32-byte transaction hash, as sent
+ * by examples/sign-eth.ts, cannot be decoded.
+ * @param prefixes Network codes handled (default: "ethereum:", "eip155:")
+ */
+export function ethereumDecoder(
+  prefixes: string[] = ["ethereum:", "eip155:"]
+): ChainDecoder {
+  return {
+    name: "ethereum",
+    supports: prefixMatcher(prefixes),
+    decode(payload) {
+      if (payload.length <= 32) return undefined;
+
+      let fields: RlpItem;
+      let toIndex: number;
+      try {
+        if (payload[0] === 0x02) {
+          fields = decodeRlp(payload.subarray(1));
+          toIndex = 5;
+        } else if (payload[0] === 0x01) {
+          fields = decodeRlp(payload.subarray(1));
+          toIndex = 4;
+        } else if (payload[0] >= 0xc0) {
+          fields = decodeRlp(payload);
+          toIndex = 3;
+        } else {
+          return undefined;
+        }
+      } catch {
+        return undefined;
+      }
+      if (!Array.isArray(fields) || fields.length < toIndex + 3) {
+        return undefined;
+      }
+
+      const [to, value, data] = fields.slice(toIndex, toIndex + 3);
+      if (Array.isArray(to) || Array.isArray(value) || Array.isArray(data)) {
+        return undefined;
+      }
+      if (to.length !== 20) {
+        // Contract creation
+        return { transfers: [], complete: false };
+      }
+
+      const transfers: DecodedTransfer[] = [];
+      const amount = toBigInt(value);
+      if (amount > 0n || data.length === 0) {
+        transfers.push({ destination: hex(to), amount });
+      }
+      if (data.length === 0) return { transfers, complete: true };
+
+      const selector = Buffer.from(data.subarray(0, 4)).toString("hex");
+      if (selector === ERC20_TRANSFER && data.length === 68) {
+        transfers.push({
+          destination: hex(data.subarray(16, 36)),
+          amount: toBigInt(data.subarray(36, 68)),
+          asset: hex(to),
+        });
+        return { transfers, complete: true };
+      }
+      // Any other contract call
+      return { transfers, complete: false };
+    },
+  };
+}
+
+function decodeRlp(input: Uint8Array): RlpItem {
+  const [item, length] = decodeRlpItem(input, 0);
+  if (length !== input.length) throw new Error("Trailing RLP data");
+  return item;
+}
+
+function decodeRlpItem(input: Uint8Array, offset: number): [RlpItem, number] {
+  const prefix = input[offset];
+  if (prefix === undefined) throw new Error("Truncated RLP data");
+
+  if (prefix < 0x80) return [input.subarray(offset, offset + 1), offset + 1];
+
+  let isList: boolean;
+  let start: number;
+  let length: number;
+  if (prefix < 0xb8) {
+    [isList, start, length] = [false, offset + 1, prefix - 0x80];
+  } else if (prefix < 0xc0) {
+    const size = prefix - 0xb7;
+    [isList, start] = [false, offset + 1 + size];
+    length = readLength(input, offset + 1, size);
+  } else if (prefix < 0xf8) {
+    [isList, start, length] = [true, offset + 1, prefix - 0xc0];
+  } else {
+    const size = prefix - 0xf7;
+    [isList, start] = [true, offset + 1 + size];
+    length = readLength(input, offset + 1, size);
+  }
+  const end = start + length;
+  if (end > input.length) throw new Error("Truncated RLP data");
+
+  if (!isList) return [input.subarray(start, end), end];
+  const items: RlpItem[] = [];
+  let position = start;
+  while (position < end) {
+    const [item, next] = decodeRlpItem(input, position);
+    items.push(item);
+    position = next;
+  }
+  return [items, end];
+}
+
+function readLength(input: Uint8Array, offset: number, size: number): number {
+  if (offset + size > input.length) throw new Error("Truncated RLP data");
+  return Number(toBigInt(input.subarray(offset, offset + size)));
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt(hex(bytes));
+}
+
+// ---------------------------------------------------------------------------
+// Solana
+
+const SYSTEM_PROGRAM = new Uint8Array(32);
+const SYSTEM_TRANSFER = 2;
+
+/**
+ * Decoder for Solana transaction messages (legacy and v0), reading System
+ * Program transfers
+ * @param prefixes Network codes handled (default: "solana:")
+ */
+export function solanaDecoder(prefixes: string[] = ["solana:"]): ChainDecoder {
+  return {
+    name: "solana",
+    supports: prefixMatcher(prefixes),
+    decode(payload) {
+      try {
+        return decodeSolanaMessage(payload);
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+function decodeSolanaMessage(payload: Uint8Array): DecodedTransaction {
+  const reader = new ByteReader(payload);
+  // Versioned messages have the high bit of the first byte set
+  if (payload[0] & 0x80) reader.bytes(1);
+  reader.bytes(3); // Message header
+
+  const keys: Uint8Array[] = [];
+  const keyCount = reader.compactU16();
+  for (let i = 0; i < keyCount; i++) keys.push(reader.bytes(32));
+  reader.bytes(32); // Recent blockhash
+
+  const transfers: DecodedTransfer[] = [];
+  let complete = true;
+  const instructionCount = reader.compactU16();
+  for (let i = 0; i < instructionCount; i++) {
+    const program = keys[reader.u8()];
+    const accounts = Array.from(reader.bytes(reader.compactU16()));
+    const data = reader.bytes(reader.compactU16());
+
+    const isTransfer =
+      program !== undefined &&
+      Buffer.from(program).equals(SYSTEM_PROGRAM) &&
+      data.length === 12 &&
+      Buffer.from(data).readUInt32LE(0) === SYSTEM_TRANSFER;
+    // Accounts from address lookup tables cannot be resolved here
+    const destination = keys[accounts[1]];
+    if (!isTransfer || !destination) {
+      complete = false;
+      continue;
+    }
+    transfers.push({
+      destination: encodeBase58(destination),
+      amount: Buffer.from(data).readBigUInt64LE(4),
+    });
+  }
+  return { transfers, complete };
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function encodeBase58(bytes: Uint8Array): string {
+  let value = toBigInt(bytes);
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = "1" + encoded;
+  }
+  return encoded;
+}
+
+// ---------------------------------------------------------------------------
+// Polkadot
+
+export interface PolkadotDecoderOptions {
+  prefixes?: string[]; // Network codes handled (default: "polkadot:", "kusama:")
+  // Index of the Balances pallet per network code (default: 5, Asset Hubs 10)
+  balancesPallet?: Record<string, number>;
+  // Index of the Assets pallet per network code (default: Asset Hubs 50)
+  assetsPallet?: Record<string, number>;
+}
+
+const DEFAULT_BALANCES_PALLET: Record<string, number> = {
+  "polkadot:mainnet": 5,
+  "kusama:mainnet": 4,
+  "polkadot:westend": 4,
+  "polkadot:paseo": 5,
+  "polkadot:rococo": 4,
+  "polkadot:asset-hub": 10,
+  "kusama:asset-hub": 10,
+  "polkadot:asset-hub-westend": 10,
+  "polkadot:asset-hub-paseo": 10,
+};
+
+const DEFAULT_ASSETS_PALLET: Record<string, number> = {
+  "polkadot:asset-hub": 50,
+  "kusama:asset-hub": 50,
+  "polkadot:asset-hub-westend": 50,
+  "polkadot:asset-hub-paseo": 50,
+};
+
+// Balances: transfer_allow_death, transfer_keep_alive
+// Assets: transfer, transfer_keep_alive
+const BALANCES_TRANSFERS = [0, 3];
+const ASSETS_TRANSFERS = [8, 9];
+
+/**
+ * Decoder for Substrate signing payloads (the bytes built by
+ * buildSigningPayload), reading Balances and Assets transfers.
+ * Destinations are the hex account IDs of the recipients. Payloads longer
+ * than 256 bytes are signed as their hash and cannot be decoded.
+ */
+export function polkadotDecoder(
+  options: PolkadotDecoderOptions = {}
+): ChainDecoder {
+  const balances = { ...DEFAULT_BALANCES_PALLET, ...options.balancesPallet };
+  const assets = { ...DEFAULT_ASSETS_PALLET, ...options.assetsPallet };
+
+  return {
+    name: "polkadot",
+    supports: prefixMatcher(options.prefixes ?? ["polkadot:", "kusama:"]),
+    decode(payload, networkInternalCode) {
+      if (payload.length === 32) return undefined;
+      try {
+        const reader = new ByteReader(payload);
+        const pallet = reader.u8();
+        const call = reader.u8();
+
+        if (
+          pallet === balances[networkInternalCode] &&
+          BALANCES_TRANSFERS.includes(call)
+        ) {
+          const destination = readMultiAddress(reader);
+          const amount = reader.compact();
+          return destination
+            ? { transfers: [{ destination, amount }], complete: true }
+            : { transfers: [], complete: false };
+        }
+        if (
+          pallet === assets[networkInternalCode] &&
+          ASSETS_TRANSFERS.includes(call)
+        ) {
+          const asset = reader.compact().toString();
+          const destination = readMultiAddress(reader);
+          const amount = reader.compact();
+          return destination
+            ? { transfers: [{ destination, amount, asset }], complete: true }
+            : { transfers: [], complete: false };
+        }
+        return { transfers: [], complete: false };
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+/**
+ * Read a MultiAddress; only account IDs can be compared with an allowlist
+ */
+function readMultiAddress(reader: ByteReader): string | undefined {
+  const variant = reader.u8();
+  switch (variant) {
+    case 0: // Id
+    case 3: // Address32
+      return hex(reader.bytes(32));
+    case 4: // Address20
+      return hex(reader.bytes(20));
+    default:
+      return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  u8(): number {
+    return this.bytes(1)[0];
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error("Unexpected end of payload");
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /** Solana compact-u16 */
+  compactU16(): number {
+    let value = 0;
+    for (let shift = 0; shift <= 14; shift += 7) {
+      const byte = this.u8();
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error("Invalid compact-u16");
+  }
+
+  /** SCALE compact integer */
+  compact(): bigint {
+    const first = this.u8();
+    switch (first & 0b11) {
+      case 0:
+        return BigInt(first >> 2);
+      case 1:
+        return BigInt(((this.u8() << 8) | first) >> 2);
+      case 2: {
+        const rest = this.bytes(3);
+        return BigInt(
+          ((rest[2] << 24) | (rest[1] << 16) | (rest[0] << 8) | first) >>> 2
+        );
+      }
+      default: {
+        const length = (first >> 2) + 4;
+        const bytes = Array.from(this.bytes(length)).reverse();
+        return toBigInt(Uint8Array.from(bytes));
+      }
+    }
+  }
+}
+
+/**
+ * Decoders for Ethereum, Solana and Polkadot payloads with default settings
+ */
+export function defaultDecoders(): ChainDecoder[] {
+  return [ethereumDecoder(), solanaDecoder(), polkadotDecoder()];
+}
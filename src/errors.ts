@@ -0,0 +1,184 @@
+import {
+  KeygenResultEvent,
+  SigningResultEvent,
+  ResharingResultEvent,
+} from "./types";
+import type { ValidationIssue } from "./validation";
+import type { PolicyRule, PolicyViolation } from "./policy";
+
+export interface MpciumErrorOptions {
+  code?: string; // error_code reported by the MPC nodes
+  walletId?: string;
+  txId?: string;
+  sessionId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown or reported by the client
+ */
+export class MpciumError extends Error {
+  readonly code?: string;
+  readonly walletId?: string;
+  readonly txId?: string;
+  readonly sessionId?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: MpciumErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code;
+    this.walletId = options.walletId;
+    this.txId = options.txId;
+    this.sessionId = options.sessionId;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The initiator private key could not be read, decrypted or parsed
+ */
+export class KeyLoadError extends MpciumError {}
+
+/**
+ * Publishing to or consuming from NATS failed
+ */
+export class TransportError extends MpciumError {}
+
+/**
+ * JetStream is not enabled or not reachable on the NATS server
+ */
+export class JetStreamUnavailableError extends TransportError {}
+
+/**
+ * No result arrived for a request within its timeout
+ */
+export class RequestTimeoutError extends MpciumError {
+  constructor(
+    readonly requestId: string,
+    readonly timeoutMs: number,
+    options: MpciumErrorOptions = {}
+  ) {
+    super(
+      `Timed out after ${timeoutMs}ms waiting for result of ${requestId}`,
+      options
+    );
+  }
+}
+
+/**
+ * The MPC nodes reported an error result for a keygen request
+ */
+export class KeygenFailedError extends MpciumError {
+  constructor(readonly event: KeygenResultEvent) {
+    super(
+      `Key generation failed for wallet ${event.wallet_id}: ${
+        event.error_reason ?? "unknown error"
+      }`,
+      { code: event.error_code, walletId: event.wallet_id }
+    );
+  }
+}
+
+/**
+ * The MPC nodes reported an error result for a signing request
+ */
+export class SigningFailedError extends MpciumError {
+  constructor(readonly event: SigningResultEvent) {
+    super(
+      `Signing failed for tx ${event.tx_id}: ${
+        event.error_reason ?? "unknown error"
+      }`,
+      { code: event.error_code, walletId: event.wallet_id, txId: event.tx_id }
+    );
+  }
+}
+
+/**
+ * The MPC nodes reported an error result for a resharing request
+ */
+export class ResharingFailedError extends MpciumError {
+  constructor(readonly event: ResharingResultEvent) {
+    super(
+      `Resharing failed for wallet ${event.wallet_id}: ${
+        event.error_reason ?? "unknown error"
+      }`,
+      {
+        code: event.error_code,
+        walletId: event.wallet_id,
+        sessionId: event.session_id,
+      }
+    );
+  }
+}
+
+/**
+ * A result message could not be decoded or lacks required fields
+ */
+export class MalformedEventError extends MpciumError {
+  constructor(
+    message: string,
+    readonly subject: string,
+    options: MpciumErrorOptions = {}
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * A result message does not match the schema of its event type
+ */
+export class InvalidEventError extends MalformedEventError {
+  constructor(
+    subject: string,
+    readonly issues: ValidationIssue[],
+    options: MpciumErrorOptions = {}
+  ) {
+    super(
+      `Invalid result on ${subject}: ${issues
+        .map((issue) => `${issue.field} ${issue.message}`.trim())
+        .join("; ")}`,
+      subject,
+      options
+    );
+  }
+}
+
+/**
+ * A result middleware dropped the result of a request, so it never
+ * completes
+ */
+export class ResultDroppedError extends MpciumError {}
+
+/**
+ * A request was rejected by a request middleware before it was signed
+ */
+export class RequestRejectedError extends MpciumError {}
+
+/**
+ * A signing request broke a rule of the client's transaction policy
+ */
+export class PolicyViolationError extends RequestRejectedError {
+  readonly rule: PolicyRule;
+
+  constructor(readonly violation: PolicyViolation) {
+    super(
+      `Policy rule ${violation.rule} rejected tx ${violation.txId}: ${violation.message}`,
+      {
+        walletId: violation.walletId,
+        txId: violation.txId,
+      }
+    );
+    this.rule = violation.rule;
+  }
+}
+
+/**
+ * A request was rejected by the client-side rate limiter
+ */
+export class RateLimitError extends MpciumError {}
+
+/**
+ * The client is closing or closed and accepts no new requests
+ */
+export class ClientClosedError extends MpciumError {}
@@ -0,0 +1,120 @@
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Handle returned for every result listener
+ */
+export interface ResultSubscription {
+  unsubscribe(): void;
+}
+
+/**
+ * Minimal typed event emitter keyed by an event map interface
+ */
+export class TypedEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Add a listener
+   * @returns Function removing the listener again
+   */
+  on<K extends keyof Events>(
+    event: K,
+    listener: Listener<Events[K]>
+  ): () => void {
+    const set = (this.listeners[event] ??= new Set());
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Call every listener of an event; a throwing listener does not prevent
+   * the others from being called
+   * @returns Errors thrown by listeners
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): unknown[] {
+    const errors: unknown[] = [];
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      try {
+        listener(payload);
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    return errors;
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners[event]?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
+
+/**
+ * Turn a listener registration into an async iterator that buffers events
+ * until they are pulled
+ * @param subscribe Registers the push function and returns its subscription
+ * @param signal Optional signal ending the iteration when aborted
+ */
+export function createResultIterator<T>(
+  subscribe: (push: Listener<T>) => ResultSubscription,
+  signal?: AbortSignal
+): AsyncIterableIterator<T> {
+  const buffer: T[] = [];
+  const waiting: ((result: IteratorResult<T>) => void)[] = [];
+  // An already aborted iteration never subscribes
+  let done = signal?.aborted ?? false;
+
+  const subscription = done
+    ? undefined
+    : subscribe((event) => {
+        const next = waiting.shift();
+        if (next) {
+          next({ value: event, done: false });
+        } else {
+          buffer.push(event);
+        }
+      });
+
+  const finish = (): IteratorResult<T> => {
+    if (!done) {
+      done = true;
+      subscription?.unsubscribe();
+      signal?.removeEventListener("abort", finish);
+      for (const next of waiting.splice(0)) {
+        next({ value: undefined, done: true });
+      }
+    }
+    return { value: undefined, done: true };
+  };
+
+  if (!done) signal?.addEventListener("abort", finish, { once: true });
+
+  return {
+    next(): Promise<IteratorResult<T>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return(): Promise<IteratorResult<T>> {
+      buffer.length = 0;
+      return Promise.resolve(finish());
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
@@ -9,18 +9,211 @@ export type {
   SigningResultEvent,
   ResharingResultEvent,
   MpciumOptions,
+  SignTransactionParams,
+  ReshareKeysParams,
+  WaitOptions,
+  MpciumClientEvents,
+  ConsumerMode,
+  ConsumerOptions,
+  TransportPolicy,
+  PublishResult,
+  RequestKind,
+  RecoveredRequests,
+  CloseOptions,
+  CloseResult,
+  ConnectionState,
+  HealthReport,
 } from "./types";
 
+export type { ResultSubscription } from "./events";
+
 export { KeyType } from "./types";
 
+// Export error classes so callers can branch on instanceof
+export {
+  MpciumError,
+  KeyLoadError,
+  TransportError,
+  JetStreamUnavailableError,
+  RequestTimeoutError,
+  KeygenFailedError,
+  SigningFailedError,
+  ResharingFailedError,
+  MalformedEventError,
+  InvalidEventError,
+  ResultDroppedError,
+  RequestRejectedError,
+  PolicyViolationError,
+  RateLimitError,
+  ClientClosedError,
+} from "./errors";
+export type { MpciumErrorOptions } from "./errors";
+
+// Export subject configuration
+export { DEFAULT_SUBJECTS, resolveSubjects } from "./subjects";
+export type { SubjectConfig } from "./subjects";
+
+// Export retry configuration
+export {
+  DEFAULT_PUBLISH_RETRY,
+  DEFAULT_CONSUMER_RETRY,
+  backoffDelay,
+} from "./retry";
+export type { RetryPolicy } from "./retry";
+
+// Export batch signing types
+export type {
+  SignBatchOptions,
+  SignBatchResult,
+  SignBatchItemResult,
+  SignBatchProgress,
+} from "./batch";
+
+// Export rate limiting types
+export type {
+  RateLimitOptions,
+  RateLimitStats,
+  TokenBucketConfig,
+} from "./ratelimit";
+
+// Export stream provisioning
+export { MpciumAdmin, DEFAULT_STREAM_SPECS } from "./admin";
+export type {
+  AdminOptions,
+  StreamRole,
+  StreamSpec,
+  StreamSpecs,
+  ConfigDrift,
+  ProvisionAction,
+  ProvisionResult,
+  ProvisionOptions,
+} from "./admin";
+
+// Export result validation and dead letters
+export { validateResultEvent } from "./validation";
+export type { ValidationIssue } from "./validation";
+export { DeadLetterQueue, DEAD_LETTER_HEADERS } from "./deadletter";
+export type { DeadLetter, DeadLetterListOptions } from "./deadletter";
+
+// Export middleware
+export type {
+  RequestContext,
+  RequestMiddleware,
+  ResultContext,
+  ResultMiddleware,
+} from "./middleware";
+
+// Export transaction policies and chain decoders
+export { TransactionPolicyEngine } from "./policy";
+export type {
+  TransactionPolicy,
+  WalletRules,
+  NetworkRules,
+  AmountLimits,
+  Amount,
+  TimeWindow,
+  PolicyRule,
+  PolicyViolation,
+  PolicyDecision,
+} from "./policy";
+export {
+  ethereumDecoder,
+  solanaDecoder,
+  polkadotDecoder,
+  defaultDecoders,
+} from "./decoders";
+export type {
+  ChainDecoder,
+  DecodedTransaction,
+  DecodedTransfer,
+  PolkadotDecoderOptions,
+} from "./decoders";
+
+// Export result replay
+export type { ReplayResultsOptions, ReplayedResult } from "./replay";
+
+// Export metrics
+export {
+  PrometheusMetrics,
+  METRICS,
+  DEFAULT_DURATION_BUCKETS,
+  noopMetrics,
+} from "./metrics";
+export type { MetricsRecorder, MetricLabels } from "./metrics";
+
+// Export tracing
+export {
+  createOpenTelemetryTracing,
+  noopTracing,
+  formatTraceparent,
+  parseTraceparent,
+  injectTraceContext,
+  extractTraceContext,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from "./tracing";
+export type {
+  TracingHook,
+  TraceSpan,
+  TraceContext,
+  StartSpanOptions,
+  SpanAttributes,
+  OpenTelemetryApi,
+} from "./tracing";
+
+// Export request journals
+export { MemoryJournal, FileJournal } from "./journal";
+export type {
+  RequestJournal,
+  JournalEntry,
+  JournalOutcome,
+  JournalStatus,
+} from "./journal";
+
+// Export logging helpers
+export {
+  createConsoleLogger,
+  silentLogger,
+  withLevel,
+  withRedaction,
+  redactFields,
+} from "./logger";
+export type { Logger, LogLevel, LogFields } from "./logger";
+
 // Export utility functions for key handling
 export {
+  generatePrivateKey,
   loadPrivateKey,
+  loadEncryptedPrivateKey,
+  encryptPrivateKey,
   signGenerateKeyMessage,
   signSignTxMessage,
   signResharingMessage,
+  verifyGenerateKeyMessage,
+  verifySignTxMessage,
+  verifyResharingMessage,
+  derivePublicKey,
 } from "./utils";
 
+// Export initiator signers
+export {
+  MemoryKeySigner,
+  HexFileSigner,
+  AgeFileSigner,
+  EnvKeySigner,
+  DEFAULT_KEY_ENV,
+} from "./signer";
+export type { InitiatorSigner } from "./signer";
+
+// Export the canonical encoding of signed request payloads
+export {
+  canonicalPayload,
+  GENERATE_KEY_SCHEMA,
+  SIGN_TX_SCHEMA,
+  RESHARING_SCHEMA,
+} from "./canonical";
+export type { MessageSchema, FieldType } from "./canonical";
+
 // Export Polkadot/Substrate utilities
 export {
   buildSigningPayload,
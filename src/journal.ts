@@ -0,0 +1,247 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  RequestKind,
+  GenerateKeyMessage,
+  SignTxMessage,
+  ResharingMessage,
+} from "./types";
+
+export type JournalStatus = "pending" | "completed" | "failed";
+
+export interface JournalEntry {
+  kind: RequestKind;
+  id: string; // Wallet ID, tx ID or session ID of the request
+  message: GenerateKeyMessage | SignTxMessage | ResharingMessage;
+  metadata?: Record<string, unknown>; // Caller data, e.g. what to broadcast
+  status: JournalStatus;
+  createdAt: number; // Epoch milliseconds
+  completedAt?: number;
+  result?: unknown; // Result event that completed the request
+  error?: string;
+}
+
+export interface JournalOutcome {
+  status: Exclude<JournalStatus, "pending">;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Durable record of in-flight requests, used to recover after a restart
+ */
+export interface RequestJournal {
+  /** Record an outgoing request before it is published */
+  record(entry: JournalEntry): Promise<void>;
+  /** Mark a request as completed or failed; unknown IDs are ignored */
+  complete(
+    kind: RequestKind,
+    id: string,
+    outcome: JournalOutcome
+  ): Promise<void>;
+  /** Get every request still waiting for its result */
+  pending(): Promise<JournalEntry[]>;
+  /** Get a single request */
+  get(kind: RequestKind, id: string): Promise<JournalEntry | undefined>;
+  /** Forget a request */
+  remove(kind: RequestKind, id: string): Promise<void>;
+}
+
+function entryKey(kind: RequestKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * Journal kept in process memory; lost on restart, useful for tests
+ */
+export class MemoryJournal implements RequestJournal {
+  protected entries = new Map<string, JournalEntry>();
+
+  async record(entry: JournalEntry): Promise<void> {
+    this.entries.set(entryKey(entry.kind, entry.id), { ...entry });
+  }
+
+  async complete(
+    kind: RequestKind,
+    id: string,
+    outcome: JournalOutcome
+  ): Promise<void> {
+    const entry = this.entries.get(entryKey(kind, id));
+    if (!entry) return;
+    this.entries.set(entryKey(kind, id), {
+      ...entry,
+      ...outcome,
+      completedAt: Date.now(),
+    });
+  }
+
+  async pending(): Promise<JournalEntry[]> {
+    return [...this.entries.values()].filter(
+      (entry) => entry.status === "pending"
+    );
+  }
+
+  async get(kind: RequestKind, id: string): Promise<JournalEntry | undefined> {
+    return this.entries.get(entryKey(kind, id));
+  }
+
+  async remove(kind: RequestKind, id: string): Promise<void> {
+    this.entries.delete(entryKey(kind, id));
+  }
+}
+
+// Finished requests are kept this long unless configured otherwise
+const DEFAULT_RETAIN_COMPLETED_MS = 24 * 60 * 60 * 1000;
+// The file is compacted once it has at least this many lines...
+const MIN_COMPACT_LINES = 1000;
+// ...and more than this many lines per live entry
+const COMPACT_RATIO = 2;
+
+// A line of the journal file: the latest state of an entry, or its removal
+type JournalLine =
+  | JournalEntry
+  | { kind: RequestKind; id: string; removed: true };
+
+/**
+ * Journal persisted as a JSON Lines file. Every change appends the new state
+ * of its entry; the file is compacted through a temporary file and a rename
+ * once most of its lines are outdated, so a crash never leaves it half
+ * written.
+ */
+export class FileJournal extends MemoryJournal {
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private lines = 0; // Lines in the file, including outdated ones
+
+  /**
+   * @param filePath Path of the journal file (created if missing)
+   * @param options retainCompletedMs: how long finished requests are kept
+   * (default: 24 hours)
+   */
+  constructor(
+    private filePath: string,
+    private options: { retainCompletedMs?: number } = {}
+  ) {
+    super();
+  }
+
+  async record(entry: JournalEntry): Promise<void> {
+    await this.load();
+    await super.record(entry);
+    await this.append(this.entries.get(entryKey(entry.kind, entry.id))!);
+  }
+
+  async complete(
+    kind: RequestKind,
+    id: string,
+    outcome: JournalOutcome
+  ): Promise<void> {
+    await this.load();
+    if (!this.entries.has(entryKey(kind, id))) return;
+    await super.complete(kind, id, outcome);
+    await this.append(this.entries.get(entryKey(kind, id))!);
+  }
+
+  async pending(): Promise<JournalEntry[]> {
+    await this.load();
+    return super.pending();
+  }
+
+  async get(kind: RequestKind, id: string): Promise<JournalEntry | undefined> {
+    await this.load();
+    return super.get(kind, id);
+  }
+
+  async remove(kind: RequestKind, id: string): Promise<void> {
+    await this.load();
+    if (!this.entries.has(entryKey(kind, id))) return;
+    await super.remove(kind, id);
+    await this.append({ kind, id, removed: true });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        let content: string;
+        try {
+          content = await fs.readFile(this.filePath, "utf8");
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+          await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+          return;
+        }
+
+        let torn = false;
+        for (const text of content.split("\n")) {
+          if (!text.trim()) continue;
+          let line: JournalLine;
+          try {
+            line = JSON.parse(text) as JournalLine;
+          } catch {
+            // A crash while appending leaves the last line half written
+            torn = true;
+            continue;
+          }
+          this.lines++;
+          const key = entryKey(line.kind, line.id);
+          if ("removed" in line) {
+            this.entries.delete(key);
+          } else {
+            this.entries.set(key, line);
+          }
+        }
+        this.pruneCompleted();
+        // Appending after a torn line would corrupt the next entry too
+        if (torn) await this.compact();
+      })();
+      // Allow loading again if the file could not be read
+      this.loaded.catch(() => {
+        this.loaded = undefined;
+        this.entries.clear();
+        this.lines = 0;
+      });
+    }
+    return this.loaded;
+  }
+
+  private append(line: JournalLine): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.appendFile(this.filePath, `${JSON.stringify(line)}\n`);
+      this.lines++;
+      this.pruneCompleted();
+      if (
+        this.lines >= MIN_COMPACT_LINES &&
+        this.lines > COMPACT_RATIO * this.entries.size
+      ) {
+        await this.compact();
+      }
+    });
+    // Keep the chain alive after a failed write
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Rewrite the file with one line per live entry
+   */
+  private async compact(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    const entries = [...this.entries.values()];
+    await fs.writeFile(
+      tmpPath,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join("")
+    );
+    await fs.rename(tmpPath, this.filePath);
+    this.lines = entries.length;
+  }
+
+  private pruneCompleted(): void {
+    const { retainCompletedMs = DEFAULT_RETAIN_COMPLETED_MS } = this.options;
+    const cutoff = Date.now() - retainCompletedMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.completedAt !== undefined && entry.completedAt < cutoff) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
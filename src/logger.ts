@@ -0,0 +1,146 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Level-aware structured logger accepted by MpciumClient
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel | "silent", number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+// Fields whose values must never reach the logs
+const REDACTED_FIELDS = new Set([
+  "signature",
+  "signature_recovery",
+  "r",
+  "s",
+  "tx",
+  "password",
+  "privateKey",
+]);
+
+const REDACTED = "[REDACTED]";
+const TRUNCATED = "[Truncated]";
+// Objects nested deeper than this are replaced by TRUNCATED
+const MAX_REDACTION_DEPTH = 5;
+
+/**
+ * Logger that discards everything (the client default)
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Logger writing to the console, one line per entry
+ * @param level Minimum level to print (default: info)
+ */
+export function createConsoleLogger(level: LogLevel = "info"): Logger {
+  const write =
+    (method: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (fields && Object.keys(fields).length > 0) {
+        console[method](message, fields);
+      } else {
+        console[method](message);
+      }
+    };
+
+  return withLevel(
+    {
+      debug: write("debug"),
+      info: write("info"),
+      warn: write("warn"),
+      error: write("error"),
+    },
+    level
+  );
+}
+
+/**
+ * Wrap a logger so that entries below the threshold are dropped
+ * @param logger Logger to wrap
+ * @param level Minimum level to forward, or "silent" to drop everything
+ */
+export function withLevel(logger: Logger, level: LogLevel | "silent"): Logger {
+  const threshold = LEVELS[level];
+  const forward =
+    (method: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      if (LEVELS[method] >= threshold) {
+        logger[method](message, fields);
+      }
+    };
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+}
+
+/**
+ * Wrap a logger so that signatures, tx payloads and key material in the
+ * structured fields are replaced before they are forwarded
+ */
+export function withRedaction(logger: Logger): Logger {
+  const forward =
+    (method: LogLevel) =>
+    (message: string, fields?: LogFields): void => {
+      logger[method](message, fields && redactFields(fields));
+    };
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+}
+
+/**
+ * Copy structured log fields, replacing sensitive values at any depth
+ */
+export function redactFields(fields: LogFields): LogFields {
+  return redactValue(fields, 0) as LogFields;
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  // Deeper objects are not inspected, so they must not be logged either
+  if (depth > MAX_REDACTION_DEPTH) {
+    return TRUNCATED;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = REDACTED_FIELDS.has(key)
+      ? REDACTED
+      : redactValue(item, depth + 1);
+  }
+  return result;
+}
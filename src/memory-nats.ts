@@ -0,0 +1,999 @@
+import {
+  NatsConnection,
+  NatsError,
+  ErrorCode,
+  Msg,
+  MsgHdrs,
+  JsMsg,
+  PubAck,
+  StoredMsg,
+  Status,
+  StreamConfig,
+  StreamInfo,
+  ConsumerConfig,
+  ConsumerInfo,
+  OrderedConsumerOptions,
+  RetentionPolicy,
+  StorageType,
+  DiscardPolicy,
+  DeliverPolicy,
+  AckPolicy,
+  JSONCodec,
+  StringCodec,
+  headers as createHeaders,
+  nanos,
+  millis,
+} from "nats";
+import { matchesSubject } from "./subjects";
+
+const jc = JSONCodec();
+const sc = StringCodec();
+
+// Header used by JetStream to deduplicate published messages
+const MSG_ID_HEADER = "Nats-Msg-Id";
+
+// JetStream API error codes
+const CONSUMER_NOT_FOUND = 10014;
+const NO_MESSAGE_FOUND = 10037;
+const STREAM_NAME_IN_USE = 10058;
+const STREAM_NOT_FOUND = 10059;
+const SUBJECTS_OVERLAP = 10065;
+
+const DEFAULT_DUPLICATE_WINDOW_MS = 2 * 60 * 1000;
+const DEFAULT_ACK_WAIT_MS = 30 * 1000;
+
+interface StoredMessage {
+  seq: number;
+  subject: string;
+  data: Uint8Array;
+  headers?: MsgHdrs;
+  time: Date;
+}
+
+interface CoreSubscription {
+  subject: string;
+  queue?: string;
+  connection: MemoryConnection;
+  messages: MessageQueue<Msg>;
+  callback?: (err: NatsError | null, msg: Msg) => void;
+  sid: number;
+}
+
+/**
+ * In-process stand-in for a NATS server with JetStream, for tests that
+ * should not need a running nats-server. It implements the part of the
+ * NATS client API used by MpciumClient, MpciumAdmin and
+ * MpcClusterSimulator: core publish/subscribe, streams (limits, interest
+ * and work-queue retention, message deduplication) and pull consumers
+ * with acknowledgements and redelivery. Stream limits such as max_age and
+ * max_bytes are stored but not enforced.
+ */
+export class MemoryNatsServer {
+  private streams = new Map<string, MemoryStream>();
+  private subscriptions = new Set<CoreSubscription>();
+  private queueCursor = new Map<string, number>();
+  private nextSid = 1;
+
+  /**
+   * Open a connection; every connection of a server sees the same
+   * subjects and streams
+   */
+  connect(): NatsConnection {
+    return new MemoryConnection(this) as unknown as NatsConnection;
+  }
+
+  /** @internal */
+  publish(subject: string, data: Uint8Array, h?: MsgHdrs): PubAck | undefined {
+    const payload = Uint8Array.from(data);
+    const stream = [...this.streams.values()].find((s) => s.captures(subject));
+    const ack = stream?.store(subject, payload, h);
+
+    const groups = new Map<string, CoreSubscription[]>();
+    for (const sub of this.subscriptions) {
+      if (!matchesSubject(sub.subject, subject)) continue;
+      if (sub.queue === undefined) {
+        deliverCore(sub, subject, payload, h);
+      } else {
+        groups.set(sub.queue, [...(groups.get(sub.queue) ?? []), sub]);
+      }
+    }
+    // One member of each queue group receives the message
+    for (const [queue, members] of groups) {
+      const cursor = (this.queueCursor.get(queue) ?? 0) % members.length;
+      this.queueCursor.set(queue, cursor + 1);
+      deliverCore(members[cursor], subject, payload, h);
+    }
+    return ack;
+  }
+
+  /** @internal */
+  subscribe(sub: Omit<CoreSubscription, "sid">): CoreSubscription {
+    const subscription = { ...sub, sid: this.nextSid++ };
+    this.subscriptions.add(subscription);
+    return subscription;
+  }
+
+  /** @internal */
+  unsubscribe(sub: CoreSubscription): void {
+    this.subscriptions.delete(sub);
+    sub.messages.end();
+  }
+
+  /** @internal */
+  stream(name: string): MemoryStream {
+    const stream = this.streams.get(name);
+    if (!stream) {
+      throw apiError(404, STREAM_NOT_FOUND, "stream not found");
+    }
+    return stream;
+  }
+
+  /** @internal */
+  addStream(config: Partial<StreamConfig>): StreamInfo {
+    const name = config.name ?? "";
+    const existing = this.streams.get(name);
+    if (existing) {
+      if (sameConfig(existing.config, withStreamDefaults(config))) {
+        return existing.info();
+      }
+      throw apiError(400, STREAM_NAME_IN_USE, "stream name already in use");
+    }
+    this.checkOverlap(name, config.subjects ?? []);
+    const stream = new MemoryStream(withStreamDefaults(config));
+    this.streams.set(name, stream);
+    return stream.info();
+  }
+
+  /** @internal */
+  updateStream(name: string, config: Partial<StreamConfig>): StreamInfo {
+    const stream = this.stream(name);
+    this.checkOverlap(name, config.subjects ?? stream.config.subjects);
+    stream.config = { ...stream.config, ...config, name };
+    return stream.info();
+  }
+
+  /** @internal */
+  deleteStream(name: string): boolean {
+    this.stream(name).close();
+    return this.streams.delete(name);
+  }
+
+  /** @internal */
+  streamNames(): string[] {
+    return [...this.streams.keys()];
+  }
+
+  private checkOverlap(name: string, subjects: string[]): void {
+    for (const stream of this.streams.values()) {
+      if (stream.config.name === name) continue;
+      const overlaps = subjects.some((subject) =>
+        stream.config.subjects.some(
+          (other) =>
+            matchesSubject(subject, other) || matchesSubject(other, subject)
+        )
+      );
+      if (overlaps) {
+        throw apiError(
+          400,
+          SUBJECTS_OVERLAP,
+          `subjects overlap with stream ${stream.config.name}`
+        );
+      }
+    }
+  }
+}
+
+class MemoryStream {
+  private messages = new Map<number, StoredMessage>();
+  private msgIds = new Map<string, { seq: number; time: number }>();
+  private lastSeq = 0;
+  private created = new Date();
+  consumers = new Map<string, MemoryConsumer>();
+
+  constructor(public config: StreamConfig) {}
+
+  captures(subject: string): boolean {
+    return this.config.subjects.some((pattern) =>
+      matchesSubject(pattern, subject)
+    );
+  }
+
+  store(subject: string, data: Uint8Array, h?: MsgHdrs): PubAck {
+    const stream = this.config.name;
+    const msgId = h?.get(MSG_ID_HEADER);
+    const now = Date.now();
+    if (msgId) {
+      const window = this.config.duplicate_window
+        ? millis(this.config.duplicate_window)
+        : DEFAULT_DUPLICATE_WINDOW_MS;
+      // Entries are in insertion order: drop the expired ones at the front
+      for (const [id, entry] of this.msgIds) {
+        if (now - entry.time < window) break;
+        this.msgIds.delete(id);
+      }
+      const seen = this.msgIds.get(msgId);
+      if (seen && now - seen.time < window) {
+        return { stream, seq: seen.seq, duplicate: true };
+      }
+    }
+
+    const seq = ++this.lastSeq;
+    this.messages.set(seq, {
+      seq,
+      subject,
+      data,
+      headers: h && copyHeaders(h),
+      time: new Date(now),
+    });
+    if (msgId) this.msgIds.set(msgId, { seq, time: now });
+    this.consumers.forEach((consumer) => consumer.notify());
+    return { stream, seq, duplicate: false };
+  }
+
+  get(seq: number): StoredMessage | undefined {
+    return this.messages.get(seq);
+  }
+
+  remove(seq: number): boolean {
+    return this.messages.delete(seq);
+  }
+
+  /**
+   * Sequences of stored messages from a sequence on, oldest first
+   */
+  sequencesFrom(seq: number): number[] {
+    return [...this.messages.keys()].filter((s) => s >= seq);
+  }
+
+  firstSeqAtOrAfter(time: Date): number {
+    for (const message of this.messages.values()) {
+      if (message.time >= time) return message.seq;
+    }
+    return this.lastSeq + 1;
+  }
+
+  get last(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Apply the retention policy once a consumer acknowledged a message
+   */
+  acknowledged(seq: number): void {
+    const message = this.messages.get(seq);
+    if (!message) return;
+    switch (this.config.retention) {
+      case RetentionPolicy.Workqueue:
+        this.messages.delete(seq);
+        break;
+      case RetentionPolicy.Interest: {
+        const interested = [...this.consumers.values()].filter(
+          (consumer) => consumer.acks && consumer.filters(message.subject)
+        );
+        if (interested.every((consumer) => consumer.hasAcked(seq))) {
+          this.messages.delete(seq);
+          interested.forEach((consumer) => consumer.forget(seq));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  info(): StreamInfo {
+    const messages = [...this.messages.values()];
+    const first = messages[0];
+    return {
+      config: this.config,
+      created: this.created.toISOString(),
+      ts: new Date().toISOString(),
+      state: {
+        messages: messages.length,
+        bytes: messages.reduce((sum, m) => sum + m.data.length, 0),
+        first_seq: first?.seq ?? this.lastSeq + 1,
+        first_ts: (first?.time ?? new Date(0)).toISOString(),
+        last_seq: this.lastSeq,
+        last_ts: (
+          messages[messages.length - 1]?.time ?? new Date(0)
+        ).toISOString(),
+        consumer_count: this.consumers.size,
+        num_deleted: 0,
+        deleted: [],
+        lost: { msgs: [], bytes: 0 },
+      },
+    } as unknown as StreamInfo;
+  }
+
+  close(): void {
+    this.consumers.forEach((consumer) => consumer.close());
+    this.consumers.clear();
+  }
+}
+
+interface Delivery {
+  count: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+class MemoryConsumer {
+  private cursor: number;
+  private deliveries = new Map<number, Delivery>(); // Awaiting an ack
+  private deliveryCounts = new Map<number, number>();
+  private redeliveries: { seq: number; dueAt: number }[] = [];
+  private acked = new Set<number>();
+  private waiters = new Set<() => void>();
+  private redeliveryTimer?: ReturnType<typeof setTimeout>;
+  private delivered = 0;
+  private redelivered = 0;
+  private created = new Date();
+
+  constructor(
+    private stream: MemoryStream,
+    public name: string,
+    public config: ConsumerConfig
+  ) {
+    this.cursor = this.startSeq();
+  }
+
+  get acks(): boolean {
+    return this.config.ack_policy !== AckPolicy.None;
+  }
+
+  filters(subject: string): boolean {
+    const filters = this.config.filter_subjects?.length
+      ? this.config.filter_subjects
+      : this.config.filter_subject
+      ? [this.config.filter_subject]
+      : [];
+    return (
+      filters.length === 0 ||
+      filters.some((filter) => matchesSubject(filter, subject))
+    );
+  }
+
+  hasAcked(seq: number): boolean {
+    return this.acked.has(seq);
+  }
+
+  forget(seq: number): void {
+    this.acked.delete(seq);
+  }
+
+  notify(): void {
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    waiters.forEach((wake) => wake());
+  }
+
+  wait(): Promise<void> {
+    return new Promise((resolve) => this.waiters.add(resolve));
+  }
+
+  /**
+   * Next message to deliver: a due redelivery first, then the next new one
+   */
+  take(): JsMsg | undefined {
+    const now = Date.now();
+    const due = this.redeliveries.findIndex((r) => r.dueAt <= now);
+    if (due >= 0) {
+      const [{ seq }] = this.redeliveries.splice(due, 1);
+      const message = this.stream.get(seq);
+      if (message) return this.deliver(message);
+    }
+    this.scheduleRedelivery();
+
+    for (const seq of this.stream.sequencesFrom(this.cursor)) {
+      const message = this.stream.get(seq);
+      this.cursor = seq + 1;
+      if (message && this.filters(message.subject)) {
+        return this.deliver(message);
+      }
+    }
+    this.cursor = Math.max(this.cursor, this.stream.last + 1);
+    return undefined;
+  }
+
+  info(): ConsumerInfo {
+    return {
+      stream_name: this.stream.config.name,
+      name: this.name,
+      created: this.created.toISOString(),
+      ts: new Date().toISOString(),
+      config: this.config,
+      delivered: { consumer_seq: this.delivered, stream_seq: this.cursor - 1 },
+      ack_floor: { consumer_seq: 0, stream_seq: 0 },
+      num_ack_pending: this.deliveries.size,
+      num_redelivered: this.redelivered,
+      num_waiting: this.waiters.size,
+      num_pending: this.pending(),
+      cluster: undefined,
+      push_bound: false,
+    } as unknown as ConsumerInfo;
+  }
+
+  close(): void {
+    this.deliveries.forEach((delivery) => clearTimeout(delivery.timer));
+    this.deliveries.clear();
+    clearTimeout(this.redeliveryTimer);
+    this.notify();
+  }
+
+  private startSeq(): number {
+    const last = this.stream.last;
+    switch (this.config.deliver_policy) {
+      case DeliverPolicy.New:
+        return last + 1;
+      case DeliverPolicy.Last:
+        return Math.max(1, last);
+      case DeliverPolicy.StartSequence:
+        return this.config.opt_start_seq ?? 1;
+      case DeliverPolicy.StartTime:
+        return this.stream.firstSeqAtOrAfter(
+          new Date(this.config.opt_start_time ?? 0)
+        );
+      default:
+        return 1;
+    }
+  }
+
+  private pending(): number {
+    return this.stream
+      .sequencesFrom(this.cursor)
+      .filter((seq) => this.filters(this.stream.get(seq)?.subject ?? ""))
+      .length;
+  }
+
+  private deliver(message: StoredMessage): JsMsg {
+    const { seq } = message;
+    const count = (this.deliveryCounts.get(seq) ?? 0) + 1;
+    this.deliveryCounts.set(seq, count);
+    this.delivered++;
+    if (count > 1) this.redelivered++;
+    if (this.acks) {
+      const delivery: Delivery = { count };
+      this.deliveries.set(seq, delivery);
+      this.startAckTimer(seq, delivery);
+    }
+
+    let settled = false;
+    const settle = (handler: () => void) => {
+      if (settled || !this.acks) return;
+      settled = true;
+      const delivery = this.deliveries.get(seq);
+      clearTimeout(delivery?.timer);
+      this.deliveries.delete(seq);
+      handler();
+    };
+
+    const info = {
+      domain: "",
+      stream: this.stream.config.name,
+      consumer: this.name,
+      deliveryCount: count,
+      redeliveryCount: count,
+      redelivered: count > 1,
+      streamSequence: seq,
+      deliverySequence: this.delivered,
+      timestampNanos: message.time.getTime() * 1e6,
+      pending: this.pending(),
+    };
+
+    return {
+      subject: message.subject,
+      data: message.data,
+      headers: message.headers,
+      seq,
+      sid: 0,
+      redelivered: count > 1,
+      info,
+      ack: () => settle(() => this.acknowledge(seq)),
+      term: () => settle(() => this.acknowledge(seq)),
+      nak: (delay?: number) =>
+        settle(() => this.retry(seq, count, Date.now() + (delay ?? 0))),
+      working: () => {
+        const delivery = this.deliveries.get(seq);
+        if (!settled && delivery) this.startAckTimer(seq, delivery);
+      },
+      next: () => undefined,
+      ackAck: async () => {
+        settle(() => this.acknowledge(seq));
+        return true;
+      },
+      json: <T>() => jc.decode(message.data) as T,
+      string: () => sc.decode(message.data),
+    } as JsMsg;
+  }
+
+  private acknowledge(seq: number): void {
+    this.deliveryCounts.delete(seq);
+    // Only interest retention needs to know which consumers acknowledged
+    if (this.stream.config.retention === RetentionPolicy.Interest) {
+      this.acked.add(seq);
+    }
+    this.stream.acknowledged(seq);
+  }
+
+  private retry(seq: number, count: number, dueAt: number): void {
+    const maxDeliver = this.config.max_deliver ?? -1;
+    if (maxDeliver > 0 && count >= maxDeliver) return;
+    this.redeliveries.push({ seq, dueAt });
+    this.scheduleRedelivery();
+  }
+
+  private startAckTimer(seq: number, delivery: Delivery): void {
+    clearTimeout(delivery.timer);
+    const ackWait = this.config.ack_wait
+      ? millis(this.config.ack_wait)
+      : DEFAULT_ACK_WAIT_MS;
+    delivery.timer = setTimeout(() => {
+      if (this.deliveries.get(seq) !== delivery) return;
+      this.deliveries.delete(seq);
+      this.retry(seq, delivery.count, Date.now());
+    }, ackWait);
+    delivery.timer.unref?.();
+  }
+
+  private scheduleRedelivery(): void {
+    clearTimeout(this.redeliveryTimer);
+    if (this.redeliveries.length === 0) return;
+    const next = Math.min(...this.redeliveries.map((r) => r.dueAt));
+    this.redeliveryTimer = setTimeout(
+      () => this.notify(),
+      Math.max(0, next - Date.now())
+    );
+    this.redeliveryTimer.unref?.();
+  }
+}
+
+/**
+ * Async iterator over the messages of a consumer, pulling one message at a
+ * time like a pull consumer
+ */
+class ConsumerReader implements AsyncIterableIterator<JsMsg> {
+  private stopped = false;
+  private taken = 0;
+  private done = new Promise<void>((resolve) => (this.resolveDone = resolve));
+  private resolveDone!: () => void;
+
+  constructor(
+    private consumer: MemoryConsumer,
+    private connection: MemoryConnection,
+    private max = Infinity,
+    private waitForMessages = true
+  ) {
+    connection.readers.add(this);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<JsMsg> {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<JsMsg>> {
+    while (!this.stopped && this.taken < this.max) {
+      const m = this.consumer.take();
+      if (m) {
+        this.taken++;
+        return { done: false, value: m };
+      }
+      if (!this.waitForMessages) break;
+      await this.consumer.wait();
+    }
+    this.stop();
+    return { done: true, value: undefined };
+  }
+
+  async return(): Promise<IteratorResult<JsMsg>> {
+    this.stop();
+    return { done: true, value: undefined };
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.connection.readers.delete(this);
+    this.consumer.notify();
+    this.resolveDone();
+  }
+
+  close(): Promise<void> {
+    this.stop();
+    return this.done;
+  }
+
+  closed(): Promise<void> {
+    return this.done;
+  }
+
+  getProcessed(): number {
+    return this.taken;
+  }
+
+  getPending(): number {
+    return 0;
+  }
+
+  getReceived(): number {
+    return this.taken;
+  }
+
+  async *status() {
+    // The in-memory server reports no consumer status events
+  }
+}
+
+/**
+ * Async queue of pushed values, ended once
+ */
+class MessageQueue<T> implements AsyncIterableIterator<T> {
+  private items: T[] = [];
+  private waiters: ((result: IteratorResult<T>) => void)[] = [];
+  private ended = false;
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+
+  push(item: T): void {
+    if (this.ended) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ done: false, value: item });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  end(): void {
+    this.ended = true;
+    this.items = [];
+    for (const waiter of this.waiters.splice(0)) {
+      waiter({ done: true, value: undefined });
+    }
+  }
+
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    const item = this.items.shift();
+    if (item !== undefined)
+      return Promise.resolve({ done: false, value: item });
+    if (this.ended) return Promise.resolve({ done: true, value: undefined });
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.end();
+    return { done: true, value: undefined };
+  }
+}
+
+class MemoryConnection {
+  readers = new Set<ConsumerReader>();
+  private subscriptions = new Set<CoreSubscription>();
+  private statuses = new MessageQueue<Status>();
+  private closedFlag = false;
+  private done = new Promise<void>((resolve) => (this.resolveClosed = resolve));
+  private resolveClosed!: () => void;
+  private nextOrdered = 1;
+
+  constructor(private server: MemoryNatsServer) {}
+
+  publish(
+    subject: string,
+    data: Uint8Array = new Uint8Array(),
+    options: { headers?: MsgHdrs } = {}
+  ): void {
+    this.assertOpen();
+    this.server.publish(subject, data, options.headers);
+  }
+
+  subscribe(
+    subject: string,
+    options: {
+      queue?: string;
+      callback?: (err: NatsError | null, msg: Msg) => void;
+    } = {}
+  ) {
+    this.assertOpen();
+    const sub = this.server.subscribe({
+      subject,
+      queue: options.queue,
+      connection: this,
+      messages: new MessageQueue<Msg>(),
+      callback: options.callback,
+    });
+    this.subscriptions.add(sub);
+    const unsubscribe = () => {
+      this.subscriptions.delete(sub);
+      this.server.unsubscribe(sub);
+    };
+    return Object.assign(sub.messages, {
+      getID: () => sub.sid,
+      getSubject: () => subject,
+      unsubscribe,
+      drain: async () => unsubscribe(),
+      isClosed: () => sub.messages.isEnded,
+      closed: this.done,
+    });
+  }
+
+  async flush(): Promise<void> {
+    this.assertOpen();
+  }
+
+  async drain(): Promise<void> {
+    await this.close();
+  }
+
+  async close(): Promise<void> {
+    if (this.closedFlag) return;
+    this.closedFlag = true;
+    for (const sub of this.subscriptions) this.server.unsubscribe(sub);
+    this.subscriptions.clear();
+    for (const reader of this.readers) reader.stop();
+    this.statuses.end();
+    this.resolveClosed();
+  }
+
+  closed(): Promise<void | Error> {
+    return this.done;
+  }
+
+  isClosed(): boolean {
+    return this.closedFlag;
+  }
+
+  isDraining(): boolean {
+    return false;
+  }
+
+  getServer(): string {
+    return "memory://localhost";
+  }
+
+  status(): AsyncIterable<Status> {
+    return this.statuses;
+  }
+
+  jetstream() {
+    return {
+      publish: async (
+        subject: string,
+        data: Uint8Array = new Uint8Array(),
+        options: { msgID?: string; headers?: MsgHdrs } = {}
+      ): Promise<PubAck> => {
+        this.assertOpen();
+        const h = options.headers ? copyHeaders(options.headers) : undefined;
+        const withId = options.msgID ? h ?? createHeaders() : h;
+        if (options.msgID) withId?.set(MSG_ID_HEADER, options.msgID);
+        const ack = this.server.publish(subject, data, withId);
+        if (!ack) {
+          throw new NatsError("no responders", ErrorCode.NoResponders);
+        }
+        return ack;
+      },
+      consumers: {
+        get: async (
+          stream: string,
+          consumer: string | Partial<OrderedConsumerOptions> = {}
+        ) => {
+          this.assertOpen();
+          const target =
+            typeof consumer === "string"
+              ? this.consumer(stream, consumer)
+              : this.orderedConsumer(stream, consumer);
+          return {
+            consume: () => new ConsumerReader(target, this),
+            fetch: async (options: { max_messages?: number } = {}) =>
+              new ConsumerReader(
+                target,
+                this,
+                options.max_messages ?? 100,
+                false
+              ),
+            next: async () => target.take() ?? null,
+            info: async () => target.info(),
+          };
+        },
+      },
+    };
+  }
+
+  async jetstreamManager() {
+    this.assertOpen();
+    const server = this.server;
+    return {
+      getAccountInfo: async () => ({
+        memory: 0,
+        storage: 0,
+        streams: server.streamNames().length,
+        consumers: 0,
+        limits: {},
+        api: { total: 0, errors: 0 },
+      }),
+      streams: {
+        add: async (config: Partial<StreamConfig>) => server.addStream(config),
+        update: async (name: string, config: Partial<StreamConfig> = {}) =>
+          server.updateStream(name, config),
+        info: async (name: string) => server.stream(name).info(),
+        delete: async (name: string) => server.deleteStream(name),
+        names: () => server.streamNames(),
+        getMessage: async (
+          name: string,
+          query: { seq?: number }
+        ): Promise<StoredMsg> => {
+          const message =
+            query.seq !== undefined
+              ? server.stream(name).get(query.seq)
+              : undefined;
+          if (!message) {
+            throw apiError(404, NO_MESSAGE_FOUND, "no message found");
+          }
+          return toStoredMsg(message);
+        },
+        deleteMessage: async (name: string, seq: number) => {
+          if (!server.stream(name).remove(seq)) {
+            throw apiError(404, NO_MESSAGE_FOUND, "no message found");
+          }
+          return true;
+        },
+      },
+      consumers: {
+        add: async (stream: string, config: Partial<ConsumerConfig>) => {
+          const target = server.stream(stream);
+          const name =
+            config.durable_name ??
+            config.name ??
+            `ephemeral_${target.consumers.size + 1}_${Date.now()}`;
+          let consumer = target.consumers.get(name);
+          if (!consumer) {
+            consumer = new MemoryConsumer(
+              target,
+              name,
+              withConsumerDefaults(config)
+            );
+            target.consumers.set(name, consumer);
+          }
+          return consumer.info();
+        },
+        update: async (
+          stream: string,
+          name: string,
+          config: Partial<ConsumerConfig>
+        ) => {
+          const consumer = this.consumer(stream, name);
+          consumer.config = { ...consumer.config, ...config };
+          return consumer.info();
+        },
+        info: async (stream: string, name: string) =>
+          this.consumer(stream, name).info(),
+        delete: async (stream: string, name: string) => {
+          this.consumer(stream, name).close();
+          return server.stream(stream).consumers.delete(name);
+        },
+      },
+    };
+  }
+
+  private consumer(stream: string, name: string): MemoryConsumer {
+    const consumer = this.server.stream(stream).consumers.get(name);
+    if (!consumer) {
+      throw apiError(404, CONSUMER_NOT_FOUND, "consumer not found");
+    }
+    return consumer;
+  }
+
+  private orderedConsumer(
+    stream: string,
+    options: Partial<OrderedConsumerOptions>
+  ): MemoryConsumer {
+    // Ordered consumers do not acknowledge and are not listed on the stream
+    return new MemoryConsumer(
+      this.server.stream(stream),
+      `ordered_${this.nextOrdered++}`,
+      withConsumerDefaults({
+        ack_policy: AckPolicy.None,
+        filter_subjects: options.filterSubjects
+          ? ([] as string[]).concat(options.filterSubjects)
+          : undefined,
+        deliver_policy: options.deliver_policy ?? DeliverPolicy.All,
+        opt_start_seq: options.opt_start_seq,
+        opt_start_time: options.opt_start_time,
+      })
+    );
+  }
+
+  private assertOpen(): void {
+    if (this.closedFlag) {
+      throw NatsError.errorForCode(ErrorCode.ConnectionClosed);
+    }
+  }
+}
+
+function deliverCore(
+  sub: CoreSubscription,
+  subject: string,
+  data: Uint8Array,
+  h?: MsgHdrs
+): void {
+  const msg: Msg = {
+    subject,
+    data,
+    headers: h && copyHeaders(h),
+    sid: sub.sid,
+    respond: () => false,
+    json: <T>() => jc.decode(data) as T,
+    string: () => sc.decode(data),
+  };
+  // Deliver asynchronously, as a network round trip would
+  queueMicrotask(() => {
+    if (sub.messages.isEnded) return;
+    if (sub.callback) {
+      sub.callback(null, msg);
+    } else {
+      sub.messages.push(msg);
+    }
+  });
+}
+
+function toStoredMsg(message: StoredMessage): StoredMsg {
+  return {
+    subject: message.subject,
+    seq: message.seq,
+    header: message.headers ?? createHeaders(),
+    data: message.data,
+    time: message.time,
+    timestamp: message.time.toISOString(),
+    json: <T>() => jc.decode(message.data) as T,
+    string: () => sc.decode(message.data),
+  };
+}
+
+function copyHeaders(h: MsgHdrs): MsgHdrs {
+  const copy = createHeaders();
+  for (const [key, values] of h) {
+    values.forEach((value) => copy.append(key, value));
+  }
+  return copy;
+}
+
+function withStreamDefaults(config: Partial<StreamConfig>): StreamConfig {
+  return {
+    retention: RetentionPolicy.Limits,
+    storage: StorageType.File,
+    discard: DiscardPolicy.Old,
+    num_replicas: 1,
+    max_consumers: -1,
+    max_msgs: -1,
+    max_bytes: -1,
+    max_age: 0,
+    max_msgs_per_subject: -1,
+    max_msg_size: -1,
+    duplicate_window: nanos(DEFAULT_DUPLICATE_WINDOW_MS),
+    ...config,
+    subjects: config.subjects ?? [],
+  } as StreamConfig;
+}
+
+function withConsumerDefaults(config: Partial<ConsumerConfig>): ConsumerConfig {
+  return {
+    ack_policy: AckPolicy.Explicit,
+    deliver_policy: DeliverPolicy.All,
+    ack_wait: nanos(DEFAULT_ACK_WAIT_MS),
+    max_deliver: -1,
+    ...config,
+  } as ConsumerConfig;
+}
+
+function sameConfig(a: StreamConfig, b: StreamConfig): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function apiError(code: number, errCode: number, description: string) {
+  const err = new NatsError(description, String(code));
+  err.api_error = { code, err_code: errCode, description };
+  return err;
+}
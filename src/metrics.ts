@@ -0,0 +1,203 @@
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Small metrics interface the client records to; adapt it to any backend
+ */
+export interface MetricsRecorder {
+  increment(name: string, labels?: MetricLabels, value?: number): void;
+  observe(name: string, value: number, labels?: MetricLabels): void;
+  gauge(name: string, value: number, labels?: MetricLabels): void;
+}
+
+// Metrics recorded by MpciumClient
+export const METRICS = {
+  requestsSent: "mpcium_requests_sent_total",
+  publishFailures: "mpcium_publish_failures_total",
+  results: "mpcium_results_total",
+  requestDuration: "mpcium_request_duration_seconds",
+  redeliveries: "mpcium_result_redeliveries_total",
+  terminated: "mpcium_result_terminated_total",
+  consumerPending: "mpcium_consumer_pending_messages",
+  policyViolations: "mpcium_policy_violations_total",
+} as const;
+
+const METRIC_HELP: Record<string, string> = {
+  [METRICS.requestsSent]: "Requests published, by kind and transport",
+  [METRICS.publishFailures]: "Requests that could not be published, by kind",
+  [METRICS.results]:
+    "Result events received, by kind, result_type and error_code",
+  [METRICS.requestDuration]:
+    "Time from publishing a request to receiving its result, by kind and result_type",
+  [METRICS.redeliveries]: "Result messages delivered more than once, by kind",
+  [METRICS.terminated]: "Result messages terminated (m.term()), by kind",
+  [METRICS.consumerPending]: "Messages pending on the result consumer, by kind",
+  [METRICS.policyViolations]:
+    "Signing requests rejected by the transaction policy, by rule",
+};
+
+export const DEFAULT_DURATION_BUCKETS = [
+  0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+/**
+ * Recorder that discards everything (the client default)
+ */
+export const noopMetrics: MetricsRecorder = {
+  increment: () => undefined,
+  observe: () => undefined,
+  gauge: () => undefined,
+};
+
+interface Histogram {
+  labels: MetricLabels;
+  counts: number[]; // One per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * In-memory recorder rendering the Prometheus text exposition format
+ */
+export class PrometheusMetrics implements MetricsRecorder {
+  private counters = new Map<string, Map<string, number>>();
+  private gauges = new Map<string, Map<string, number>>();
+  private histograms = new Map<string, Map<string, Histogram>>();
+  private labelSets = new Map<string, MetricLabels>();
+
+  /**
+   * @param buckets Histogram bucket upper bounds in seconds
+   */
+  constructor(private buckets: number[] = DEFAULT_DURATION_BUCKETS) {}
+
+  increment(name: string, labels: MetricLabels = {}, value = 1): void {
+    const series = seriesMap(this.counters, name);
+    const key = this.labelKey(labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+  }
+
+  gauge(name: string, value: number, labels: MetricLabels = {}): void {
+    seriesMap(this.gauges, name).set(this.labelKey(labels), value);
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = seriesMap(this.histograms, name);
+    const key = this.labelKey(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+      histogram = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      series.set(key, histogram);
+    }
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) histogram.counts[bucket]++;
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  /**
+   * Render every recorded metric in the Prometheus text format
+   */
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, series] of this.counters) {
+      header(lines, name, "counter");
+      for (const [key, value] of series) {
+        lines.push(`${name}${formatLabels(this.labelSets.get(key)!)} ${value}`);
+      }
+    }
+
+    for (const [name, series] of this.gauges) {
+      header(lines, name, "gauge");
+      for (const [key, value] of series) {
+        lines.push(`${name}${formatLabels(this.labelSets.get(key)!)} ${value}`);
+      }
+    }
+
+    for (const [name, series] of this.histograms) {
+      header(lines, name, "histogram");
+      for (const histogram of series.values()) {
+        let cumulative = 0;
+        this.buckets.forEach((bound, i) => {
+          cumulative += histogram.counts[i];
+          lines.push(
+            `${name}_bucket${formatLabels({
+              ...histogram.labels,
+              le: String(bound),
+            })} ${cumulative}`
+          );
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({
+            ...histogram.labels,
+            le: "+Inf",
+          })} ${histogram.count}`
+        );
+        lines.push(
+          `${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`
+        );
+        lines.push(
+          `${name}_count${formatLabels(histogram.labels)} ${histogram.count}`
+        );
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  /**
+   * Forget every recorded value
+   */
+  reset(): void {
+    this.counters.clear();
+    this.gauges.clear();
+    this.histograms.clear();
+    this.labelSets.clear();
+  }
+
+  private labelKey(labels: MetricLabels): string {
+    const key = JSON.stringify(
+      Object.keys(labels)
+        .sort()
+        .map((label) => [label, labels[label]])
+    );
+    if (!this.labelSets.has(key)) this.labelSets.set(key, labels);
+    return key;
+  }
+}
+
+function seriesMap<T>(
+  metrics: Map<string, Map<string, T>>,
+  name: string
+): Map<string, T> {
+  let series = metrics.get(name);
+  if (!series) {
+    series = new Map();
+    metrics.set(name, series);
+  }
+  return series;
+}
+
+function header(lines: string[], name: string, type: string): void {
+  const help = METRIC_HELP[name];
+  if (help) lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} ${type}`);
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  const formatted = entries.map(
+    ([label, value]) =>
+      `${label}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/\n/g, "\\n")
+        .replace(/"/g, '\\"')}"`
+  );
+  return `{${formatted.join(",")}}`;
+}
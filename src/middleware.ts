@@ -0,0 +1,105 @@
+import { MsgHdrs } from "nats";
+import {
+  GenerateKeyMessage,
+  SignTxMessage,
+  ResharingMessage,
+  KeygenResultEvent,
+  SigningResultEvent,
+  ResharingResultEvent,
+  PublishResult,
+} from "./types";
+import { MpciumError } from "./errors";
+
+interface RequestContextBase {
+  metadata?: Record<string, unknown>; // Caller data passed with the request
+  headers: Record<string, string>; // Extra NATS headers to publish with
+  result?: PublishResult; // Set once next() has published the request
+}
+
+/**
+ * An outgoing request on its way through the request middleware. The
+ * message is not signed yet: middleware may change it, except for its ID
+ * (wallet_id, tx_id or session_id).
+ */
+export type RequestContext =
+  | (RequestContextBase & { kind: "keygen"; message: GenerateKeyMessage })
+  | (RequestContextBase & { kind: "signing"; message: SignTxMessage })
+  | (RequestContextBase & { kind: "reshare"; message: ResharingMessage });
+
+/**
+ * An incoming result on its way to pending waiters and listeners
+ */
+export type ResultContext =
+  | {
+      kind: "keygen";
+      event: KeygenResultEvent;
+      subject: string;
+      headers?: MsgHdrs;
+    }
+  | {
+      kind: "signing";
+      event: SigningResultEvent;
+      subject: string;
+      headers?: MsgHdrs;
+    }
+  | {
+      kind: "reshare";
+      event: ResharingResultEvent;
+      subject: string;
+      headers?: MsgHdrs;
+    };
+
+/**
+ * Request middleware: call next() to sign and publish the request, throw to
+ * reject it. Returning without calling next() is treated as a rejection.
+ */
+export type RequestMiddleware = (
+  ctx: RequestContext,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+/**
+ * Result middleware: call next() to deliver the result; returning without
+ * calling it drops the result and fails its request with
+ * ResultDroppedError, throwing fails it like a processing error
+ */
+export type ResultMiddleware = (
+  ctx: ResultContext,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+/**
+ * Run a context through a middleware chain ending in a final handler
+ * @param middleware Middleware in the order they were added
+ * @param ctx Context passed to every middleware
+ * @param handler Called by the innermost next()
+ * @returns Whether the handler was reached
+ */
+export async function runMiddleware<C>(
+  middleware: ((ctx: C, next: () => Promise<void>) => Promise<void> | void)[],
+  ctx: C,
+  handler: (ctx: C) => Promise<void>
+): Promise<boolean> {
+  const chain = [...middleware];
+  let reached = false;
+
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === chain.length) {
+      reached = true;
+      return handler(ctx);
+    }
+    let called = false;
+    await chain[index](ctx, () => {
+      if (called) {
+        return Promise.reject(
+          new MpciumError("next() called more than once by a middleware")
+        );
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  await dispatch(0);
+  return reached;
+}
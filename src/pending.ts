@@ -0,0 +1,112 @@
+import { WaitOptions } from "./types";
+import { MpciumError, RequestTimeoutError } from "./errors";
+
+interface PendingEntry<T> {
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  dispose: () => void;
+}
+
+/**
+ * Registry of requests waiting for their result event, keyed by the
+ * correlation ID of the request (wallet ID, tx ID or session ID)
+ */
+export class PendingRequests<T> {
+  private entries = new Map<string, PendingEntry<T>>();
+
+  /**
+   * Register a pending request and wait for it to be settled
+   * @param id Correlation ID of the request
+   * @param options Optional timeout and abort signal
+   * @returns Promise resolved or rejected by resolve()/reject()
+   */
+  wait(id: string, options: WaitOptions = {}): Promise<T> {
+    const { timeoutMs, signal } = options;
+
+    try {
+      this.assertCanWait(id, options);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => this.reject(id, abortReason(signal!, id));
+
+      const dispose = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.entries.delete(id);
+      };
+
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          this.reject(id, new RequestTimeoutError(id, timeoutMs));
+        }, timeoutMs);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.entries.set(id, { resolve, reject, dispose });
+    });
+  }
+
+  /**
+   * Throw the error wait() would reject with right away, if any
+   * @param id Correlation ID of the request
+   * @param options Optional timeout and abort signal
+   */
+  assertCanWait(id: string, options: WaitOptions = {}): void {
+    if (this.entries.has(id)) {
+      throw new MpciumError(`A request with ID ${id} is already pending`);
+    }
+    if (options.signal?.aborted) {
+      throw abortReason(options.signal, id);
+    }
+  }
+
+  /**
+   * Resolve a pending request
+   * @returns true if a request with this ID was pending
+   */
+  resolve(id: string, value: T): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    entry.dispose();
+    entry.resolve(value);
+    return true;
+  }
+
+  /**
+   * Reject a pending request
+   * @returns true if a request with this ID was pending
+   */
+  reject(id: string, reason: unknown): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    entry.dispose();
+    entry.reject(reason);
+    return true;
+  }
+
+  /**
+   * Reject every pending request with the same reason
+   */
+  rejectAll(reason: unknown): void {
+    for (const id of [...this.entries.keys()]) {
+      this.reject(id, reason);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+function abortReason(signal: AbortSignal, id: string): unknown {
+  return signal.reason ?? new Error(`Request ${id} was aborted`);
+}
@@ -0,0 +1,478 @@
+import { SignTxMessage } from "./types";
+import { MpciumError, PolicyViolationError } from "./errors";
+import {
+  ChainDecoder,
+  DecodedTransaction,
+  DecodedTransfer,
+  defaultDecoders,
+} from "./decoders";
+
+// Amounts in base units; strings and numbers are converted with BigInt()
+export type Amount = bigint | number | string;
+
+export interface TimeWindow {
+  days?: number[]; // Days of the week, 0 = Sunday (default: every day)
+  start: string; // "HH:MM", inclusive
+  end: string; // "HH:MM", exclusive; before start for windows past midnight
+}
+
+export interface AmountLimits {
+  maxAmount?: Amount; // Per transaction
+  dailyAmount?: Amount; // Per wallet and day
+}
+
+export interface NetworkRules extends AmountLimits {
+  allowDestinations?: string[]; // Recipients that may receive transfers
+  // Limits of tokens by contract address or asset ID; token transfers are
+  // rejected on networks that set this and do not list the token
+  assets?: Record<string, AmountLimits>;
+}
+
+export interface WalletRules {
+  allowNetworks?: string[]; // network_internal_code values, "solana:*" matches a prefix
+  denyNetworks?: string[];
+  maxRequestsPerDay?: number;
+  velocity?: { maxRequests: number; windowMs: number };
+  timeWindows?: TimeWindow[]; // Signing is only allowed inside one of them
+  networks?: Record<string, NetworkRules>; // By network_internal_code
+}
+
+/**
+ * Declarative rules checked before a signing request is signed. The
+ * top-level wallet rules apply to every wallet; entries of `wallets`
+ * override them field by field.
+ */
+export interface TransactionPolicy extends WalletRules {
+  allowWallets?: string[];
+  denyWallets?: string[];
+  wallets?: Record<string, WalletRules>;
+  decoders?: ChainDecoder[]; // Default: Ethereum, Solana and Polkadot
+  // What to do when destination or amount rules apply but no decoder
+  // understands the whole payload (default: "reject")
+  onUndecodable?: "reject" | "allow";
+  utcOffsetMinutes?: number; // Time zone of time windows and days (default: 0)
+}
+
+export type PolicyRule =
+  | "wallet.deny"
+  | "wallet.allow"
+  | "network.deny"
+  | "network.allow"
+  | "limit.daily"
+  | "limit.velocity"
+  | "time_window"
+  | "payload.undecodable"
+  | "destination.allow"
+  | "asset.allow"
+  | "amount.max"
+  | "amount.daily";
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  walletId: string;
+  txId: string;
+  networkInternalCode: string;
+  transfer?: DecodedTransfer; // Transfer that broke a destination or amount rule
+}
+
+export type PolicyDecision =
+  | { allowed: true; transaction?: DecodedTransaction }
+  | { allowed: false; violation: PolicyViolation };
+
+interface WalletUsage {
+  day: number; // Days since the epoch in the policy time zone
+  requests: number;
+  amounts: Map<string, bigint>; // By network and asset
+  recent: number[]; // Timestamps within the velocity window
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluates signing requests against a TransactionPolicy and keeps the
+ * per-wallet usage that daily and velocity limits are counted against.
+ * Usage is kept in memory and starts empty with every process.
+ */
+export class TransactionPolicyEngine {
+  private decoders: ChainDecoder[];
+  private usage = new Map<string, WalletUsage>();
+
+  /**
+   * @throws MpciumError if a time window or amount limit is invalid
+   */
+  constructor(private policy: TransactionPolicy) {
+    validateRules(policy, "policy");
+    for (const [walletId, rules] of Object.entries(policy.wallets ?? {})) {
+      validateRules(rules, `wallets.${walletId}`);
+    }
+    this.decoders = policy.decoders ?? defaultDecoders();
+  }
+
+  /**
+   * Check a signing request without counting it
+   * @param msg Unsigned signing request
+   * @param now Time the request is made
+   */
+  evaluate(msg: SignTxMessage, now: Date = new Date()): PolicyDecision {
+    const { wallet_id: walletId, network_internal_code: network } = msg;
+    const violation = (
+      rule: PolicyRule,
+      message: string,
+      transfer?: DecodedTransfer
+    ): PolicyDecision => ({
+      allowed: false,
+      violation: {
+        rule,
+        message,
+        walletId,
+        txId: msg.tx_id,
+        networkInternalCode: network,
+        transfer,
+      },
+    });
+
+    const { denyWallets, allowWallets } = this.policy;
+    if (denyWallets?.includes(walletId)) {
+      return violation("wallet.deny", `Wallet ${walletId} is denied`);
+    }
+    if (allowWallets && !allowWallets.includes(walletId)) {
+      return violation("wallet.allow", `Wallet ${walletId} is not allowed`);
+    }
+
+    const rules = this.rulesFor(walletId);
+    if (rules.denyNetworks?.some((pattern) => matches(pattern, network))) {
+      return violation("network.deny", `Network ${network} is denied`);
+    }
+    if (
+      rules.allowNetworks &&
+      !rules.allowNetworks.some((pattern) => matches(pattern, network))
+    ) {
+      return violation(
+        "network.allow",
+        `Network ${network} is not allowed for wallet ${walletId}`
+      );
+    }
+
+    const local = this.localTime(now);
+    if (
+      rules.timeWindows &&
+      !rules.timeWindows.some((window) => inWindow(window, local))
+    ) {
+      return violation(
+        "time_window",
+        `Signing is not allowed at ${formatTime(local)}`
+      );
+    }
+
+    const usage = this.currentUsage(walletId, now);
+    if (
+      rules.maxRequestsPerDay !== undefined &&
+      usage.requests >= rules.maxRequestsPerDay
+    ) {
+      return violation(
+        "limit.daily",
+        `Wallet ${walletId} reached its limit of ${rules.maxRequestsPerDay} requests per day`
+      );
+    }
+    if (rules.velocity) {
+      const { maxRequests, windowMs } = rules.velocity;
+      const since = now.getTime() - windowMs;
+      const recent = usage.recent.filter((time) => time > since).length;
+      if (recent >= maxRequests) {
+        return violation(
+          "limit.velocity",
+          `Wallet ${walletId} reached its limit of ${maxRequests} requests per ${windowMs}ms`
+        );
+      }
+    }
+
+    const networkRules = rules.networks?.[network];
+    if (!networkRules || !hasTransferRules(networkRules)) {
+      return { allowed: true };
+    }
+
+    const transaction = this.decode(msg);
+    if (!transaction || !transaction.complete) {
+      if (this.policy.onUndecodable === "allow") return { allowed: true };
+      return violation(
+        "payload.undecodable",
+        `No decoder understands the ${network} payload of tx ${msg.tx_id}`
+      );
+    }
+
+    const totals = new Map<string | undefined, bigint>();
+    for (const transfer of transaction.transfers) {
+      const { destination, asset } = transfer;
+      const { allowDestinations } = networkRules;
+      if (
+        allowDestinations &&
+        !allowDestinations.some((allowed) => sameAddress(allowed, destination))
+      ) {
+        return violation(
+          "destination.allow",
+          `Destination ${destination} is not allowed on ${network}`,
+          transfer
+        );
+      }
+
+      const limits =
+        asset === undefined
+          ? networkRules
+          : findAsset(networkRules.assets ?? {}, asset);
+      if (!limits) {
+        if (!networkRules.assets) continue;
+        return violation(
+          "asset.allow",
+          `Asset ${asset} is not allowed on ${network}`,
+          transfer
+        );
+      }
+
+      const total = (totals.get(asset) ?? 0n) + transfer.amount;
+      totals.set(asset, total);
+      if (limits.maxAmount !== undefined && total > BigInt(limits.maxAmount)) {
+        return violation(
+          "amount.max",
+          `Amount ${total} exceeds the maximum of ${limits.maxAmount} on ${network}`,
+          transfer
+        );
+      }
+      const spent = usage.amounts.get(amountKey(network, asset)) ?? 0n;
+      if (
+        limits.dailyAmount !== undefined &&
+        spent + total > BigInt(limits.dailyAmount)
+      ) {
+        return violation(
+          "amount.daily",
+          `Wallet ${walletId} would exceed its daily amount of ${limits.dailyAmount} on ${network}`,
+          transfer
+        );
+      }
+    }
+    return { allowed: true, transaction };
+  }
+
+  /**
+   * Check a signing request and count it against the wallet's limits
+   * @returns Function taking the request back out of the usage, for
+   * requests that could not be published after all
+   * @throws PolicyViolationError naming the rule that rejected it
+   */
+  enforce(msg: SignTxMessage, now: Date = new Date()): () => void {
+    const decision = this.evaluate(msg, now);
+    if (!decision.allowed) {
+      throw new PolicyViolationError(decision.violation);
+    }
+
+    const usage = this.currentUsage(msg.wallet_id, now);
+    const time = now.getTime();
+    const amounts = new Map<string, bigint>();
+    for (const { asset, amount } of decision.transaction?.transfers ?? []) {
+      const key = amountKey(msg.network_internal_code, asset);
+      amounts.set(key, (amounts.get(key) ?? 0n) + amount);
+    }
+
+    usage.requests++;
+    usage.recent.push(time);
+    for (const [key, amount] of amounts) {
+      usage.amounts.set(key, (usage.amounts.get(key) ?? 0n) + amount);
+    }
+
+    let undone = false;
+    return () => {
+      // Usage of a previous day or a reset wallet is gone already
+      if (undone || this.usage.get(msg.wallet_id) !== usage) return;
+      undone = true;
+      usage.requests--;
+      const index = usage.recent.indexOf(time);
+      if (index >= 0) usage.recent.splice(index, 1);
+      for (const [key, amount] of amounts) {
+        usage.amounts.set(key, (usage.amounts.get(key) ?? 0n) - amount);
+      }
+    };
+  }
+
+  /**
+   * Forget the usage counted for one wallet, or for every wallet
+   */
+  reset(walletId?: string): void {
+    if (walletId === undefined) {
+      this.usage.clear();
+    } else {
+      this.usage.delete(walletId);
+    }
+  }
+
+  private rulesFor(walletId: string): WalletRules {
+    const overrides = this.policy.wallets?.[walletId];
+    if (!overrides) return this.policy;
+    return {
+      allowNetworks: overrides.allowNetworks ?? this.policy.allowNetworks,
+      denyNetworks: overrides.denyNetworks ?? this.policy.denyNetworks,
+      maxRequestsPerDay:
+        overrides.maxRequestsPerDay ?? this.policy.maxRequestsPerDay,
+      velocity: overrides.velocity ?? this.policy.velocity,
+      timeWindows: overrides.timeWindows ?? this.policy.timeWindows,
+      networks: { ...this.policy.networks, ...overrides.networks },
+    };
+  }
+
+  private decode(msg: SignTxMessage): DecodedTransaction | undefined {
+    const network = msg.network_internal_code;
+    const payload = Buffer.from(msg.tx, "base64");
+    for (const decoder of this.decoders) {
+      if (!decoder.supports(network)) continue;
+      const transaction = decoder.decode(payload, network);
+      if (transaction) return transaction;
+    }
+    return undefined;
+  }
+
+  private currentUsage(walletId: string, now: Date): WalletUsage {
+    const day = Math.floor(
+      (now.getTime() + this.offsetMinutes() * 60 * 1000) / DAY_MS
+    );
+    let usage = this.usage.get(walletId);
+    if (!usage || usage.day !== day) {
+      usage = {
+        day,
+        requests: 0,
+        amounts: new Map(),
+        recent: usage?.recent ?? [],
+      };
+      this.usage.set(walletId, usage);
+    }
+
+    const windowMs = this.rulesFor(walletId).velocity?.windowMs ?? 0;
+    const since = now.getTime() - windowMs;
+    usage.recent = usage.recent.filter((time) => time > since);
+    return usage;
+  }
+
+  private localTime(now: Date): { day: number; minutes: number } {
+    const local = new Date(now.getTime() + this.offsetMinutes() * 60 * 1000);
+    return {
+      day: local.getUTCDay(),
+      minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+    };
+  }
+
+  private offsetMinutes(): number {
+    return this.policy.utcOffsetMinutes ?? 0;
+  }
+}
+
+function hasTransferRules(rules: NetworkRules): boolean {
+  return (
+    rules.allowDestinations !== undefined ||
+    rules.maxAmount !== undefined ||
+    rules.dailyAmount !== undefined ||
+    rules.assets !== undefined
+  );
+}
+
+function matches(pattern: string, networkInternalCode: string): boolean {
+  return pattern.endsWith("*")
+    ? networkInternalCode.startsWith(pattern.slice(0, -1))
+    : pattern === networkInternalCode;
+}
+
+// Hex addresses are compared case-insensitively, base58 ones exactly
+function sameAddress(a: string, b: string): boolean {
+  return a.startsWith("0x") ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+function findAsset(
+  assets: Record<string, AmountLimits>,
+  asset: string
+): AmountLimits | undefined {
+  const key = Object.keys(assets).find((key) => sameAddress(key, asset));
+  return key === undefined ? undefined : assets[key];
+}
+
+function amountKey(network: string, asset: string | undefined): string {
+  return asset === undefined ? network : `${network}:${asset}`;
+}
+
+// Checked up front so that a bad policy fails when the client is created,
+// not when a request is signed
+function validateRules(rules: WalletRules, path: string): void {
+  rules.timeWindows?.forEach((window, i) => {
+    const at = `${path}.timeWindows[${i}]`;
+    parseTime(window.start, `${at}.start`);
+    parseTime(window.end, `${at}.end`);
+    const badDay = window.days?.find(
+      (day) => !Number.isInteger(day) || day < 0 || day > 6
+    );
+    if (badDay !== undefined) {
+      throw new MpciumError(
+        `Invalid day ${badDay} in ${at}.days, expected 0-6`
+      );
+    }
+  });
+  for (const [network, networkRules] of Object.entries(rules.networks ?? {})) {
+    const at = `${path}.networks.${network}`;
+    validateLimits(networkRules, at);
+    for (const [asset, limits] of Object.entries(networkRules.assets ?? {})) {
+      validateLimits(limits, `${at}.assets.${asset}`);
+    }
+  }
+}
+
+function validateLimits(limits: AmountLimits, path: string): void {
+  for (const field of ["maxAmount", "dailyAmount"] as const) {
+    const amount = limits[field];
+    if (amount === undefined) continue;
+    let value: bigint;
+    try {
+      value = BigInt(amount);
+    } catch (err) {
+      throw new MpciumError(`Invalid amount "${amount}" in ${path}.${field}`, {
+        cause: err,
+      });
+    }
+    if (value < 0n) {
+      throw new MpciumError(`Negative amount ${amount} in ${path}.${field}`);
+    }
+  }
+}
+
+function parseTime(time: string, path = "time window"): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  const hours = match ? parseInt(match[1], 10) : NaN;
+  const minutes = match ? parseInt(match[2], 10) : NaN;
+  if (!(hours < 24 && minutes < 60)) {
+    throw new MpciumError(`Invalid time "${time}" in ${path}, expected HH:MM`);
+  }
+  return hours * 60 + minutes;
+}
+
+function inWindow(
+  window: TimeWindow,
+  now: { day: number; minutes: number }
+): boolean {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  if (start <= end) {
+    return (
+      (!window.days || window.days.includes(now.day)) &&
+      now.minutes >= start &&
+      now.minutes < end
+    );
+  }
+  // Past midnight: the part after midnight belongs to the previous day
+  if (now.minutes >= start) {
+    return !window.days || window.days.includes(now.day);
+  }
+  return (
+    now.minutes < end &&
+    (!window.days || window.days.includes((now.day + 6) % 7))
+  );
+}
+
+function formatTime({ day, minutes }: { day: number; minutes: number }) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return `${days[day]} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
@@ -0,0 +1,285 @@
+import { RequestKind } from "./types";
+import { MpciumError, RateLimitError } from "./errors";
+
+export interface TokenBucketConfig {
+  ratePerSecond: number; // Sustained requests per second
+  burst?: number; // Bucket capacity (default: max(1, ratePerSecond))
+}
+
+export interface RateLimitOptions {
+  global?: TokenBucketConfig; // Shared by every request
+  perWallet?: TokenBucketConfig; // One bucket per wallet ID
+  perKind?: Partial<Record<RequestKind, TokenBucketConfig>>;
+  maxInFlight?: number; // Requests published but without a result yet
+  inFlightTtlMs?: number; // Release an in-flight slot if no result arrives (default: 5 minutes)
+  whenLimited?: "wait" | "reject"; // Queue the request (default) or throw RateLimitError
+  maxQueueDepth?: number; // Reject when this many requests are already waiting
+}
+
+export interface RateLimitStats {
+  queued: number;
+  inFlight: number;
+}
+
+// Per-wallet buckets are pruned once there are more than this many
+const MAX_IDLE_WALLET_BUCKETS = 10000;
+
+class TokenBucket {
+  private capacity: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private config: TokenBucketConfig) {
+    this.capacity = config.burst ?? Math.max(1, config.ratePerSecond);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Milliseconds until a token is available (0 if one is available now)
+   */
+  waitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.config.ratePerSecond) * 1000);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.config.ratePerSecond
+    );
+    this.updatedAt = now;
+  }
+}
+
+interface Waiter {
+  kind: RequestKind;
+  id: string;
+  walletId: string;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Client-side token-bucket rate limiter with a cap on in-flight requests.
+ * Waiting requests are served in FIFO order, except that a request held
+ * back by its own wallet or kind bucket does not hold back the others.
+ */
+export class RequestLimiter {
+  private globalBucket?: TokenBucket;
+  private kindBuckets = new Map<RequestKind, TokenBucket>();
+  private walletBuckets = new Map<string, TokenBucket>();
+  private queue: Waiter[] = [];
+  private inFlight = new Map<string, ReturnType<typeof setTimeout>>();
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(private options: RateLimitOptions) {
+    validateOptions(options);
+    if (options.global) {
+      this.globalBucket = new TokenBucket(options.global);
+    }
+    for (const [kind, config] of Object.entries(options.perKind ?? {})) {
+      if (config) {
+        this.kindBuckets.set(kind as RequestKind, new TokenBucket(config));
+      }
+    }
+  }
+
+  /**
+   * Wait until a request may be published
+   * @param kind Request kind
+   * @param id Request ID, used to release its in-flight slot
+   * @param walletId Wallet the request belongs to
+   */
+  acquire(kind: RequestKind, id: string, walletId: string): Promise<void> {
+    const { whenLimited = "wait", maxQueueDepth } = this.options;
+
+    if (
+      whenLimited === "reject" &&
+      (this.queue.length > 0 || this.blockedFor(kind, walletId) !== 0)
+    ) {
+      return Promise.reject(
+        new RateLimitError(`Rate limit reached for ${kind} request ${id}`, {
+          walletId,
+        })
+      );
+    }
+    if (maxQueueDepth !== undefined && this.queue.length >= maxQueueDepth) {
+      return Promise.reject(
+        new RateLimitError(
+          `Request queue is full (${this.queue.length} waiting)`,
+          { walletId }
+        )
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.queue.push({ kind, id, walletId, resolve, reject });
+      this.pump();
+    });
+  }
+
+  /** Whether in-flight slots are limited, and so have to be released */
+  get limitsInFlight(): boolean {
+    return this.options.maxInFlight !== undefined;
+  }
+
+  /**
+   * Free the in-flight slot of a request once its result arrived or its
+   * publish failed; unknown IDs are ignored
+   */
+  release(kind: RequestKind, id: string): void {
+    const key = `${kind}:${id}`;
+    const timer = this.inFlight.get(key);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.inFlight.delete(key);
+    this.pump();
+  }
+
+  /**
+   * Reject every waiting request
+   */
+  rejectAll(reason: unknown): void {
+    for (const waiter of this.queue.splice(0)) {
+      waiter.reject(reason);
+    }
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  stats(): RateLimitStats {
+    return { queued: this.queue.length, inFlight: this.inFlight.size };
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    let nextWait = Infinity;
+    for (let i = 0; i < this.queue.length; ) {
+      const waiter = this.queue[i];
+      const wait = this.blockedFor(waiter.kind, waiter.walletId);
+      if (wait === Infinity) return; // Woken up by release()
+      if (wait > 0) {
+        // Later requests for other wallets or kinds may still go out
+        nextWait = Math.min(nextWait, wait);
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      for (const bucket of this.bucketsFor(waiter.kind, waiter.walletId)) {
+        bucket.take();
+      }
+      this.startInFlight(waiter.kind, waiter.id);
+      waiter.resolve();
+    }
+    if (nextWait !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), nextWait);
+    }
+  }
+
+  /**
+   * Milliseconds until a request may be sent: 0 now, Infinity when waiting
+   * for an in-flight slot
+   */
+  private blockedFor(kind: RequestKind, walletId: string): number {
+    const { maxInFlight } = this.options;
+    if (maxInFlight !== undefined && this.inFlight.size >= maxInFlight) {
+      return Infinity;
+    }
+    return Math.max(
+      0,
+      ...this.bucketsFor(kind, walletId).map((bucket) => bucket.waitTime())
+    );
+  }
+
+  private bucketsFor(kind: RequestKind, walletId: string): TokenBucket[] {
+    const buckets: TokenBucket[] = [];
+    if (this.globalBucket) buckets.push(this.globalBucket);
+
+    const kindBucket = this.kindBuckets.get(kind);
+    if (kindBucket) buckets.push(kindBucket);
+
+    if (this.options.perWallet) {
+      let walletBucket = this.walletBuckets.get(walletId);
+      if (!walletBucket) {
+        this.pruneWalletBuckets();
+        walletBucket = new TokenBucket(this.options.perWallet);
+        this.walletBuckets.set(walletId, walletBucket);
+      }
+      buckets.push(walletBucket);
+    }
+    return buckets;
+  }
+
+  private pruneWalletBuckets(): void {
+    if (this.walletBuckets.size < MAX_IDLE_WALLET_BUCKETS) return;
+    for (const [walletId, bucket] of this.walletBuckets) {
+      if (bucket.isFull()) this.walletBuckets.delete(walletId);
+    }
+  }
+
+  private startInFlight(kind: RequestKind, id: string): void {
+    if (this.options.maxInFlight === undefined) return;
+
+    const key = `${kind}:${id}`;
+    clearTimeout(this.inFlight.get(key));
+    const ttl = this.options.inFlightTtlMs ?? 5 * 60 * 1000;
+    const timer = setTimeout(() => this.release(kind, id), ttl);
+    // Do not keep the process alive just for this timer
+    timer.unref?.();
+    this.inFlight.set(key, timer);
+  }
+}
+
+/**
+ * Reject limits that would never admit a request or make the limiter spin
+ */
+function validateOptions(options: RateLimitOptions): void {
+  const buckets: [string, TokenBucketConfig | undefined][] = [
+    ["global", options.global],
+    ["perWallet", options.perWallet],
+    ...Object.entries(options.perKind ?? {}).map(
+      ([kind, config]): [string, TokenBucketConfig | undefined] => [
+        `perKind.${kind}`,
+        config,
+      ]
+    ),
+  ];
+  for (const [path, config] of buckets) {
+    if (!config) continue;
+    const { ratePerSecond, burst } = config;
+    if (!Number.isFinite(ratePerSecond) || ratePerSecond <= 0) {
+      throw new MpciumError(
+        `rateLimit.${path}.ratePerSecond must be a positive number, got ${ratePerSecond}`
+      );
+    }
+    if (burst !== undefined && !(burst >= 1)) {
+      throw new MpciumError(
+        `rateLimit.${path}.burst must be at least 1, got ${burst}`
+      );
+    }
+  }
+  const { maxInFlight } = options;
+  if (maxInFlight !== undefined && !(maxInFlight >= 1)) {
+    throw new MpciumError(
+      `rateLimit.maxInFlight must be at least 1, got ${maxInFlight}`
+    );
+  }
+}
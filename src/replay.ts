@@ -0,0 +1,216 @@
+import {
+  NatsConnection,
+  NatsError,
+  DeliverPolicy,
+  JSONCodec,
+  OrderedConsumerOptions,
+  ConsumerMessages,
+} from "nats";
+import {
+  RequestKind,
+  KeygenResultEvent,
+  SigningResultEvent,
+  ResharingResultEvent,
+} from "./types";
+import { SubjectConfig, matchesSubject } from "./subjects";
+import {
+  MalformedEventError,
+  InvalidEventError,
+  TransportError,
+} from "./errors";
+import { validateResultEvent } from "./validation";
+
+const jc = JSONCodec();
+
+export interface ReplayResultsOptions {
+  kind?: RequestKind | RequestKind[]; // Default: every kind
+  since?: Date | number; // Only results stored at or after this time
+  startSeq?: number; // Only results from this stream sequence on
+  walletId?: string; // Only results of this wallet
+  limit?: number; // Stop after this many results
+  batchSize?: number; // Messages fetched per request (default: 256)
+  signal?: AbortSignal; // Stop replaying
+}
+
+interface ReplayedMeta {
+  seq: number; // Sequence in the result stream
+  subject: string;
+  time: Date; // When the stream stored the result
+}
+
+export type ReplayedResult =
+  | (ReplayedMeta & { kind: "keygen"; event: KeygenResultEvent })
+  | (ReplayedMeta & { kind: "signing"; event: SigningResultEvent })
+  | (ReplayedMeta & { kind: "reshare"; event: ResharingResultEvent });
+
+export interface ReplayHandling {
+  validate?: boolean;
+  onInvalid?: (error: MalformedEventError) => void;
+}
+
+// JetStream API error code for a missing stream
+const STREAM_NOT_FOUND = 10059;
+
+// Shortest expiry the server accepts for a pull request
+const FETCH_EXPIRES_MS = 1000;
+
+/**
+ * Read past results from the result stream through an ordered ephemeral
+ * consumer, oldest first. Durable consumers are not affected. Iteration
+ * ends once the results stored when it started have been read.
+ * @param nc NATS connection
+ * @param subjects Subject configuration of the client
+ * @param options Kind, time, sequence and wallet filters
+ * @param handling validate: check results against their schema (default:
+ * true); onInvalid: receives results that are skipped as malformed
+ */
+export async function* replayResults(
+  nc: NatsConnection,
+  subjects: SubjectConfig,
+  options: ReplayResultsOptions = {},
+  handling: ReplayHandling = {}
+): AsyncGenerator<ReplayedResult> {
+  const stream = subjects.resultStream;
+  const kinds = ([] as RequestKind[]).concat(
+    options.kind ?? ["keygen", "signing", "reshare"]
+  );
+  const subjectKinds = new Map<string, RequestKind>([
+    [subjects.keygenResult, "keygen"],
+    [subjects.signingResult, "signing"],
+    [subjects.reshareResult, "reshare"],
+  ]);
+  const filterSubjects = [...subjectKinds]
+    .filter(([, kind]) => kinds.includes(kind))
+    .map(([subject]) => subject);
+
+  let lastSeq: number;
+  try {
+    const jsm = await nc.jetstreamManager();
+    lastSeq = (await jsm.streams.info(stream)).state.last_seq;
+  } catch (err) {
+    if (
+      err instanceof NatsError &&
+      err.api_error?.err_code === STREAM_NOT_FOUND
+    ) {
+      return;
+    }
+    throw new TransportError(`Cannot read result stream ${stream}: ${err}`, {
+      cause: err,
+    });
+  }
+  if (lastSeq === 0 || (options.startSeq ?? 0) > lastSeq) return;
+
+  const consumerOptions: Partial<OrderedConsumerOptions> = {
+    filterSubjects,
+    deliver_policy: DeliverPolicy.All,
+  };
+  if (options.startSeq !== undefined) {
+    consumerOptions.deliver_policy = DeliverPolicy.StartSequence;
+    consumerOptions.opt_start_seq = options.startSeq;
+  } else if (options.since !== undefined) {
+    consumerOptions.deliver_policy = DeliverPolicy.StartTime;
+    consumerOptions.opt_start_time = new Date(options.since).toISOString();
+  }
+
+  const consumer = await nc.jetstream().consumers.get(stream, consumerOptions);
+  let yielded = 0;
+  let done = false;
+  let batch: ConsumerMessages | undefined;
+
+  try {
+    while (!done && !options.signal?.aborted) {
+      batch = await consumer.fetch({
+        max_messages: options.batchSize ?? 256,
+        expires: FETCH_EXPIRES_MS,
+      });
+
+      let received = 0;
+      for await (const m of batch) {
+        received++;
+        // Stop at the end of the stream as it was when replay started
+        if (m.seq >= lastSeq || m.info.pending === 0) done = true;
+
+        const kind = kindOf(m.subject, subjectKinds);
+        const result = kind && decode(kind, m.data, m.subject, handling);
+        if (
+          result &&
+          (!options.walletId || result.wallet_id === options.walletId)
+        ) {
+          yield {
+            kind,
+            event: result,
+            seq: m.seq,
+            subject: m.subject,
+            time: new Date(Math.floor(m.info.timestampNanos / 1e6)),
+          } as ReplayedResult;
+          yielded++;
+        }
+
+        if (
+          (options.limit !== undefined && yielded >= options.limit) ||
+          options.signal?.aborted
+        ) {
+          done = true;
+        }
+        if (done) break;
+      }
+      if (received === 0) done = true;
+    }
+  } finally {
+    // Also reached when the caller stops iterating early
+    batch?.stop();
+  }
+}
+
+/**
+ * Kind of a result subject, matching the wildcard result subjects
+ */
+function kindOf(
+  subject: string,
+  subjectKinds: Map<string, RequestKind>
+): RequestKind | undefined {
+  for (const [pattern, kind] of subjectKinds) {
+    if (matchesSubject(pattern, subject)) return kind;
+  }
+  return undefined;
+}
+
+function decode(
+  kind: RequestKind,
+  payload: Uint8Array,
+  subject: string,
+  handling: ReplayHandling
+): { wallet_id: string } | undefined {
+  let data: unknown;
+  try {
+    data = jc.decode(payload);
+  } catch (err) {
+    handling.onInvalid?.(
+      new MalformedEventError(
+        `Result on ${subject} is not valid JSON`,
+        subject,
+        {
+          cause: err,
+        }
+      )
+    );
+    return undefined;
+  }
+
+  const issues =
+    handling.validate ?? true ? validateResultEvent(kind, data) : [];
+  if (issues.length > 0) {
+    handling.onInvalid?.(new InvalidEventError(subject, issues));
+    return undefined;
+  }
+  if (typeof data !== "object" || data === null) {
+    handling.onInvalid?.(
+      new MalformedEventError(
+        `Result on ${subject} is not a JSON object`,
+        subject
+      )
+    );
+    return undefined;
+  }
+  return data as { wallet_id: string };
+}
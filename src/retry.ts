@@ -0,0 +1,82 @@
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  initialDelayMs: number; // Delay before the second attempt
+  maxDelayMs: number; // Upper bound of a single delay
+  multiplier: number; // Growth factor of the delay per attempt
+  jitter: number; // Fraction (0-1) of each delay that is randomized
+}
+
+export const DEFAULT_PUBLISH_RETRY: Readonly<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 2000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+export const DEFAULT_CONSUMER_RETRY: Readonly<RetryPolicy> = {
+  maxAttempts: 8,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Delay before the given retry attempt using exponential backoff with jitter
+ * @param policy Retry policy
+ * @param attempt Number of the attempt that failed (1-based)
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1)
+  );
+  const jitter = base * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+/**
+ * Call a function until it succeeds or the policy is exhausted
+ * @param fn Function to call with the 1-based attempt number
+ * @param policy Retry policy
+ * @param options Optional abort signal and hook called before each retry
+ * @returns Result of the first successful call
+ */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: {
+    signal?: AbortSignal;
+    onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+  } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= policy.maxAttempts || options.signal?.aborted) {
+        throw err;
+      }
+      const delayMs = backoffDelay(policy, attempt);
+      options.onRetry?.(err, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+      if (options.signal?.aborted) {
+        throw err;
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,121 @@
+import * as ed25519 from "@noble/ed25519";
+import { KeyLoadError } from "./errors";
+import {
+  derivePublicKey,
+  loadEncryptedPrivateKey,
+  loadPrivateKey,
+} from "./utils";
+
+/**
+ * Holder of the event initiator key. Implement it to sign requests with an
+ * HSM, a KMS or a remote signing service so the key never enters the process.
+ */
+export interface InitiatorSigner {
+  /** Ed25519 public key of the initiator (32 bytes) */
+  publicKey(): Promise<Uint8Array>;
+  /** Sign the canonical bytes of a request with Ed25519 (64 bytes) */
+  sign(payload: Uint8Array): Promise<Uint8Array>;
+}
+
+// Environment variable read by EnvKeySigner when no name is given
+export const DEFAULT_KEY_ENV = "MPCIUM_INITIATOR_KEY";
+
+/**
+ * Signer holding the private key in process memory
+ */
+export class MemoryKeySigner implements InitiatorSigner {
+  private privateKey: Buffer;
+  private pubKey: Buffer;
+
+  /**
+   * @param privateKey Ed25519 private key (32 bytes), as bytes or hex
+   * @throws KeyLoadError if the key is not 32 bytes
+   */
+  constructor(privateKey: Buffer | Uint8Array | string) {
+    this.privateKey =
+      typeof privateKey === "string"
+        ? Buffer.from(privateKey.trim(), "hex")
+        : Buffer.from(privateKey);
+    this.pubKey = derivePublicKey(this.privateKey);
+  }
+
+  async publicKey(): Promise<Uint8Array> {
+    return this.pubKey;
+  }
+
+  async sign(payload: Uint8Array): Promise<Uint8Array> {
+    return ed25519.sign(payload, this.privateKey);
+  }
+}
+
+/**
+ * Signer loading its key on first use and keeping it in memory
+ */
+abstract class LoadedKeySigner implements InitiatorSigner {
+  private signer?: Promise<MemoryKeySigner>;
+
+  protected abstract load(): Promise<Buffer>;
+
+  async publicKey(): Promise<Uint8Array> {
+    return (await this.loaded()).publicKey();
+  }
+
+  async sign(payload: Uint8Array): Promise<Uint8Array> {
+    return (await this.loaded()).sign(payload);
+  }
+
+  private loaded(): Promise<MemoryKeySigner> {
+    if (!this.signer) {
+      const signer = this.load().then((key) => new MemoryKeySigner(key));
+      // Load again on the next call, e.g. once the key file is fixed
+      signer.catch(() => {
+        if (this.signer === signer) this.signer = undefined;
+      });
+      this.signer = signer;
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Signer reading a hex encoded key file
+ */
+export class HexFileSigner extends LoadedKeySigner {
+  constructor(private path: string) {
+    super();
+  }
+
+  protected async load(): Promise<Buffer> {
+    return loadPrivateKey(this.path);
+  }
+}
+
+/**
+ * Signer decrypting an age passphrase-encrypted key file
+ */
+export class AgeFileSigner extends LoadedKeySigner {
+  constructor(private path: string, private passphrase: string) {
+    super();
+  }
+
+  protected async load(): Promise<Buffer> {
+    return loadEncryptedPrivateKey(this.path, this.passphrase);
+  }
+}
+
+/**
+ * Signer reading a hex encoded key from an environment variable
+ */
+export class EnvKeySigner extends LoadedKeySigner {
+  constructor(private name: string = DEFAULT_KEY_ENV) {
+    super();
+  }
+
+  protected async load(): Promise<Buffer> {
+    const keyHex = process.env[this.name]?.trim();
+    if (!keyHex) {
+      throw new KeyLoadError(`Environment variable ${this.name} is not set`);
+    }
+    return Buffer.from(keyHex, "hex");
+  }
+}
@@ -0,0 +1,503 @@
+import { NatsConnection, Subscription, Msg, JSONCodec } from "nats";
+import * as ed25519 from "@noble/ed25519";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import {
+  KeyType,
+  RequestKind,
+  GenerateKeyMessage,
+  SignTxMessage,
+  ResharingMessage,
+  KeygenResultEvent,
+  SigningResultEvent,
+  ResharingResultEvent,
+  SigningResultType,
+} from "./types";
+import { SubjectConfig, resolveSubjects } from "./subjects";
+import { Logger, silentLogger } from "./logger";
+import { MpciumError } from "./errors";
+import {
+  verifyGenerateKeyMessage,
+  verifySignTxMessage,
+  verifyResharingMessage,
+} from "./utils";
+
+const jc = JSONCodec();
+
+// error_code values of the results published by the simulator
+export const SIMULATOR_ERROR_CODES = {
+  invalidSignature: "ERROR_INVALID_SIGNATURE",
+  walletExists: "ERROR_WALLET_EXISTS",
+  walletNotFound: "ERROR_WALLET_NOT_FOUND",
+  invalidThreshold: "ERROR_INVALID_THRESHOLD",
+  simulated: "ERROR_SIMULATED",
+} as const;
+
+export type SimulatedRequest =
+  | { kind: "keygen"; message: GenerateKeyMessage; subject: string }
+  | { kind: "signing"; message: SignTxMessage; subject: string }
+  | { kind: "reshare"; message: ResharingMessage; subject: string };
+
+export interface SimulatedFailure {
+  kind?: RequestKind; // Default: every kind
+  walletId?: string;
+  match?: (request: SimulatedRequest) => boolean;
+  times?: number; // Fail this many matching requests (default: all of them)
+  code?: string; // error_code of the result (default: ERROR_SIMULATED)
+  reason?: string; // error_reason of the result
+}
+
+export interface SimulatorOptions {
+  nc: NatsConnection;
+  // Ed25519 public key of the event initiator (hex or bytes); requests
+  // signed with another key get an error result
+  initiatorPublicKey?: string | Uint8Array;
+  verifySignatures?: boolean; // Default: true; requires initiatorPublicKey
+  namespace?: string;
+  subjects?: Partial<SubjectConfig>;
+  delayMs?: number | Partial<Record<RequestKind, number>>; // Before each result is published
+  failures?: SimulatedFailure[];
+  nodeIds?: string[]; // Default: node0, node1, node2
+  threshold?: number; // Default: 1
+  logger?: Logger;
+}
+
+export interface SimulatedKeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array; // Uncompressed (65 bytes) for secp256k1
+}
+
+export interface SimulatedWallet {
+  walletId: string;
+  ecdsa: SimulatedKeyPair;
+  eddsa: SimulatedKeyPair;
+  nodeIds: string[];
+  threshold: number;
+}
+
+/**
+ * Fake Mpcium cluster for tests: answers keygen, signing and resharing
+ * requests like the MPC nodes would, without running any. Wallet keys are
+ * ordinary secp256k1 and Ed25519 key pairs held in memory, so signatures
+ * in the results verify against the reported public keys.
+ *
+ * Requests are received with core NATS subscriptions, which also see
+ * requests published through JetStream. Results are published through
+ * JetStream when a stream captures them, otherwise with core NATS.
+ */
+export class MpcClusterSimulator {
+  readonly requests: SimulatedRequest[] = [];
+  private wallets = new Map<string, SimulatedWallet>();
+  private failures: SimulatedFailure[];
+  private subscriptions: Subscription[] = [];
+  private handled = new Set<string>();
+  private inFlight = new Set<Promise<void>>();
+  private initiatorKey?: Uint8Array;
+  private logger: Logger;
+  private stopped = false;
+
+  private constructor(
+    private options: SimulatorOptions,
+    private subjects: SubjectConfig
+  ) {
+    this.failures = [...(options.failures ?? [])];
+    this.logger = options.logger ?? silentLogger;
+    if (options.initiatorPublicKey !== undefined) {
+      this.initiatorKey =
+        typeof options.initiatorPublicKey === "string"
+          ? Buffer.from(options.initiatorPublicKey, "hex")
+          : options.initiatorPublicKey;
+      if (this.initiatorKey.length !== 32) {
+        throw new MpciumError(
+          `Invalid initiator public key length: ${this.initiatorKey.length}, expected 32 bytes`
+        );
+      }
+    }
+  }
+
+  /**
+   * Subscribe to the request subjects and start answering requests
+   */
+  static async start(options: SimulatorOptions): Promise<MpcClusterSimulator> {
+    if (
+      (options.verifySignatures ?? true) &&
+      options.initiatorPublicKey === undefined
+    ) {
+      throw new MpciumError(
+        "initiatorPublicKey is required unless verifySignatures is false"
+      );
+    }
+    const simulator = new MpcClusterSimulator(
+      options,
+      resolveSubjects(options.namespace, options.subjects)
+    );
+    simulator.subscribe();
+    await options.nc.flush();
+    return simulator;
+  }
+
+  /**
+   * Keys and settings of a wallet created through a keygen request
+   */
+  wallet(walletId: string): SimulatedWallet | undefined {
+    return this.wallets.get(walletId);
+  }
+
+  /**
+   * Make matching requests fail with an error result
+   * @returns Function removing the failure again
+   */
+  fail(failure: SimulatedFailure): () => void {
+    this.failures.push(failure);
+    return () => {
+      const index = this.failures.indexOf(failure);
+      if (index >= 0) this.failures.splice(index, 1);
+    };
+  }
+
+  /**
+   * Wait until every request received so far has its result published
+   */
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Stop answering requests; results still being delayed are published
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.subscriptions.forEach((sub) => sub.unsubscribe());
+    this.subscriptions = [];
+    await this.idle();
+  }
+
+  private subscribe(): void {
+    const { nc } = this.options;
+    const listen = (subject: string, kind: RequestKind) => {
+      this.subscriptions.push(
+        nc.subscribe(subject, {
+          callback: (err, msg) => {
+            if (this.stopped) return;
+            if (err) {
+              this.logger.error("Simulator subscription failed", {
+                subject,
+                error: err,
+              });
+              return;
+            }
+            this.track(this.handle(kind, msg));
+          },
+        })
+      );
+    };
+    listen(`${this.subjects.keygenRequest}.*`, "keygen");
+    listen(`${this.subjects.signingRequest}.*`, "signing");
+    listen(this.subjects.reshareRequest, "reshare");
+  }
+
+  private track(work: Promise<void>): void {
+    this.inFlight.add(work);
+    work
+      .catch((err) =>
+        this.logger.error("Simulator failed to answer request", {
+          error: err,
+        })
+      )
+      .finally(() => this.inFlight.delete(work));
+  }
+
+  private async handle(kind: RequestKind, msg: Msg): Promise<void> {
+    let request: SimulatedRequest;
+    try {
+      request = {
+        kind,
+        message: jc.decode(msg.data),
+        subject: msg.subject,
+      } as SimulatedRequest;
+    } catch (err) {
+      this.logger.warn("Simulator dropped a request that is not JSON", {
+        subject: msg.subject,
+        error: err,
+      });
+      return;
+    }
+
+    // Retried publishes reach core subscribers more than once
+    const key = `${kind}:${requestId(request)}`;
+    if (this.handled.has(key)) return;
+    this.handled.add(key);
+    this.requests.push(request);
+    this.logger.debug("Simulator received request", {
+      kind,
+      subject: msg.subject,
+      walletId: request.message.wallet_id,
+    });
+
+    const delay =
+      typeof this.options.delayMs === "number"
+        ? this.options.delayMs
+        : this.options.delayMs?.[kind] ?? 0;
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    const failure = await this.failureFor(request);
+    switch (request.kind) {
+      case "keygen":
+        return this.publish(
+          this.subjects.keygenResult,
+          request.message.wallet_id,
+          failure
+            ? keygenError(request.message, failure)
+            : await this.generateKeys(request.message)
+        );
+      case "signing":
+        return this.publish(
+          this.subjects.signingResult,
+          request.message.tx_id,
+          failure
+            ? signingError(request.message, failure)
+            : await this.sign(request.message)
+        );
+      case "reshare":
+        return this.publish(
+          this.subjects.reshareResult,
+          request.message.session_id,
+          failure
+            ? resharingError(request.message, failure)
+            : this.reshare(request.message)
+        );
+    }
+  }
+
+  /**
+   * The error to answer a request with: a bad signature, a missing or
+   * existing wallet, or a configured failure
+   */
+  private async failureFor(
+    request: SimulatedRequest
+  ): Promise<SimulatedFailure | undefined> {
+    if (
+      (this.options.verifySignatures ?? true) &&
+      !(await this.verify(request))
+    ) {
+      return {
+        code: SIMULATOR_ERROR_CODES.invalidSignature,
+        reason: "invalid initiator signature",
+      };
+    }
+
+    const walletId = request.message.wallet_id;
+    const exists = this.wallets.has(walletId);
+    if (request.kind === "keygen" && exists) {
+      return {
+        code: SIMULATOR_ERROR_CODES.walletExists,
+        reason: `wallet ${walletId} already exists`,
+      };
+    }
+    if (request.kind !== "keygen" && !exists) {
+      return {
+        code: SIMULATOR_ERROR_CODES.walletNotFound,
+        reason: `wallet ${walletId} not found`,
+      };
+    }
+    if (
+      request.kind === "reshare" &&
+      (request.message.new_threshold < 1 ||
+        request.message.new_threshold >= request.message.node_ids.length)
+    ) {
+      return {
+        code: SIMULATOR_ERROR_CODES.invalidThreshold,
+        reason: `threshold ${request.message.new_threshold} does not fit ${request.message.node_ids.length} nodes`,
+      };
+    }
+
+    const index = this.failures.findIndex(
+      (failure) =>
+        (!failure.kind || failure.kind === request.kind) &&
+        (!failure.walletId || failure.walletId === walletId) &&
+        (!failure.match || failure.match(request))
+    );
+    if (index < 0) return undefined;
+    const failure = this.failures[index];
+    if (failure.times !== undefined && --failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  private async verify(request: SimulatedRequest): Promise<boolean> {
+    const key = this.initiatorKey as Uint8Array;
+    switch (request.kind) {
+      case "keygen":
+        return verifyGenerateKeyMessage(request.message, key);
+      case "signing":
+        return verifySignTxMessage(request.message, key);
+      case "reshare":
+        return verifyResharingMessage(request.message, key);
+    }
+  }
+
+  private async generateKeys(
+    msg: GenerateKeyMessage
+  ): Promise<KeygenResultEvent> {
+    const ecdsaKey = secp256k1.utils.randomPrivateKey();
+    const eddsaKey = ed25519.utils.randomPrivateKey();
+    const wallet: SimulatedWallet = {
+      walletId: msg.wallet_id,
+      ecdsa: {
+        privateKey: ecdsaKey,
+        publicKey: secp256k1.getPublicKey(ecdsaKey, false),
+      },
+      eddsa: {
+        privateKey: eddsaKey,
+        publicKey: await ed25519.getPublicKeyAsync(eddsaKey),
+      },
+      nodeIds: this.options.nodeIds ?? ["node0", "node1", "node2"],
+      threshold: this.options.threshold ?? 1,
+    };
+    this.wallets.set(msg.wallet_id, wallet);
+
+    return {
+      wallet_id: msg.wallet_id,
+      ecdsa_pub_key: base64(wallet.ecdsa.publicKey),
+      eddsa_pub_key: base64(wallet.eddsa.publicKey),
+      result_type: "success",
+    };
+  }
+
+  private async sign(msg: SignTxMessage): Promise<SigningResultEvent> {
+    const wallet = this.wallets.get(msg.wallet_id) as SimulatedWallet;
+    const payload = Buffer.from(msg.tx, "base64");
+    const event = {
+      wallet_id: msg.wallet_id,
+      tx_id: msg.tx_id,
+      network_internal_code: msg.network_internal_code,
+      result_type: SigningResultType.Success,
+    };
+
+    if (msg.key_type === KeyType.Ed25519) {
+      const signature = await ed25519.signAsync(
+        payload,
+        wallet.eddsa.privateKey
+      );
+      return {
+        ...event,
+        r: base64(signature.subarray(0, 32)),
+        s: base64(signature.subarray(32)),
+        signature_recovery: "",
+        signature: base64(signature),
+      };
+    }
+
+    // The payload is signed as is, like the nodes sign a transaction hash
+    const signature = secp256k1.sign(payload, wallet.ecdsa.privateKey, {
+      lowS: true,
+    });
+    const compact = signature.toCompactRawBytes();
+    return {
+      ...event,
+      r: base64(compact.subarray(0, 32)),
+      s: base64(compact.subarray(32)),
+      signature_recovery: base64(Uint8Array.of(signature.recovery)),
+      signature: base64(compact),
+    };
+  }
+
+  private reshare(msg: ResharingMessage): ResharingResultEvent {
+    const wallet = this.wallets.get(msg.wallet_id) as SimulatedWallet;
+    wallet.nodeIds = [...msg.node_ids];
+    wallet.threshold = msg.new_threshold;
+
+    // Resharing replaces the key shares, not the key
+    const key = msg.key_type === KeyType.Ed25519 ? wallet.eddsa : wallet.ecdsa;
+    return {
+      result_type: "success",
+      wallet_id: msg.wallet_id,
+      session_id: msg.session_id,
+      pub_key: base64(key.publicKey),
+      new_threshold: msg.new_threshold,
+      key_type: msg.key_type,
+    };
+  }
+
+  private async publish(
+    resultSubject: string,
+    id: string,
+    event: object
+  ): Promise<void> {
+    if (this.options.nc.isClosed()) return;
+    // The request ID takes the place of the wildcard
+    const subject = resultSubject.replace(/\.[*>]$/, `.${id}`);
+    const data = jc.encode(event);
+    try {
+      await this.options.nc.jetstream().publish(subject, data);
+    } catch {
+      // No stream captures the subject (yet)
+      this.options.nc.publish(subject, data);
+    }
+    this.logger.debug("Simulator published result", { subject });
+  }
+}
+
+function requestId(request: SimulatedRequest): string {
+  switch (request.kind) {
+    case "keygen":
+      return request.message.wallet_id;
+    case "signing":
+      return request.message.tx_id;
+    case "reshare":
+      return request.message.session_id;
+  }
+}
+
+function keygenError(
+  msg: GenerateKeyMessage,
+  failure: SimulatedFailure
+): KeygenResultEvent {
+  return {
+    wallet_id: msg.wallet_id,
+    result_type: "error",
+    error_code: failure.code ?? SIMULATOR_ERROR_CODES.simulated,
+    error_reason: failure.reason ?? "simulated failure",
+  };
+}
+
+function signingError(
+  msg: SignTxMessage,
+  failure: SimulatedFailure
+): SigningResultEvent {
+  return {
+    wallet_id: msg.wallet_id,
+    tx_id: msg.tx_id,
+    network_internal_code: msg.network_internal_code,
+    r: "",
+    s: "",
+    signature_recovery: "",
+    signature: "",
+    result_type: SigningResultType.Error,
+    error_code: failure.code ?? SIMULATOR_ERROR_CODES.simulated,
+    error_reason: failure.reason ?? "simulated failure",
+  };
+}
+
+function resharingError(
+  msg: ResharingMessage,
+  failure: SimulatedFailure
+): ResharingResultEvent {
+  return {
+    result_type: "error",
+    wallet_id: msg.wallet_id,
+    session_id: msg.session_id,
+    new_threshold: msg.new_threshold,
+    key_type: msg.key_type,
+    error_code: failure.code ?? SIMULATOR_ERROR_CODES.simulated,
+    error_reason: failure.reason ?? "simulated failure",
+  };
+}
+
+function base64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64");
+}
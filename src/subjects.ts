@@ -0,0 +1,114 @@
+import { MpciumError } from "./errors";
+
+/**
+ * NATS subjects, JetStream stream names and durable consumer names used by
+ * the client. Request subjects are prefixes; the wallet or tx ID is appended.
+ */
+export interface SubjectConfig {
+  keygenRequest: string;
+  signingRequest: string;
+  reshareRequest: string;
+  keygenResult: string;
+  signingResult: string;
+  reshareResult: string;
+  deadLetter: string;
+  resultStream: string;
+  keygenStream: string;
+  signingStream: string;
+  deadLetterStream: string;
+  keygenConsumer: string;
+  signingConsumer: string;
+  reshareConsumer: string;
+}
+
+// Values used by the Mpcium nodes out of the box
+export const DEFAULT_SUBJECTS: Readonly<SubjectConfig> = {
+  keygenRequest: "mpc.keygen_request",
+  signingRequest: "mpc.signing_request",
+  reshareRequest: "mpc:reshare",
+  keygenResult: "mpc.mpc_keygen_result.*",
+  signingResult: "mpc.mpc_signing_result.*",
+  reshareResult: "mpc.mpc_reshare_result.*",
+  deadLetter: "mpc.dead_letter",
+  resultStream: "mpc",
+  keygenStream: "mpc-keygen",
+  signingStream: "mpc-signing",
+  deadLetterStream: "mpc-dead-letter",
+  keygenConsumer: "mpc_keygen_result",
+  signingConsumer: "mpc_signing_result",
+  reshareConsumer: "mpc_reshare_result",
+};
+
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Build the subject configuration for a client
+ * @param namespace Optional namespace prefixed to every subject, stream and
+ * consumer name (e.g. "staging" → "staging.mpc.keygen_request", "staging-mpc")
+ * @param overrides Individual names replacing the (namespaced) defaults
+ * @returns Complete subject configuration
+ */
+export function resolveSubjects(
+  namespace?: string,
+  overrides: Partial<SubjectConfig> = {}
+): SubjectConfig {
+  let subjects: SubjectConfig = { ...DEFAULT_SUBJECTS };
+
+  if (namespace) {
+    if (!NAMESPACE_PATTERN.test(namespace)) {
+      throw new MpciumError(
+        `Invalid namespace "${namespace}": only letters, digits, "-" and "_" are allowed`
+      );
+    }
+    const subject = (value: string) => `${namespace}.${value}`;
+    const stream = (value: string) => `${namespace}-${value}`;
+    const consumer = (value: string) => `${namespace}_${value}`;
+
+    subjects = {
+      keygenRequest: subject(subjects.keygenRequest),
+      signingRequest: subject(subjects.signingRequest),
+      reshareRequest: subject(subjects.reshareRequest),
+      keygenResult: subject(subjects.keygenResult),
+      signingResult: subject(subjects.signingResult),
+      reshareResult: subject(subjects.reshareResult),
+      deadLetter: subject(subjects.deadLetter),
+      resultStream: stream(subjects.resultStream),
+      keygenStream: stream(subjects.keygenStream),
+      signingStream: stream(subjects.signingStream),
+      deadLetterStream: stream(subjects.deadLetterStream),
+      keygenConsumer: consumer(subjects.keygenConsumer),
+      signingConsumer: consumer(subjects.signingConsumer),
+      reshareConsumer: consumer(subjects.reshareConsumer),
+    };
+  }
+
+  return { ...subjects, ...stripUndefined(overrides) };
+}
+
+/**
+ * Whether a subject matches a pattern with "*" and ">" wildcards
+ */
+export function matchesSubject(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split(".");
+  const tokens = subject.split(".");
+  for (let i = 0; i < patternTokens.length; i++) {
+    if (patternTokens[i] === ">") return tokens.length > i;
+    if (i >= tokens.length) return false;
+    if (patternTokens[i] !== "*" && patternTokens[i] !== tokens[i]) {
+      return false;
+    }
+  }
+  return tokens.length === patternTokens.length;
+}
+
+function stripUndefined(
+  overrides: Partial<SubjectConfig>
+): Partial<SubjectConfig> {
+  const result: Partial<SubjectConfig> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      result[key as keyof SubjectConfig] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,10 @@
+// Test helpers, published as "@fystack/mpcium-ts/testing"
+export { MemoryNatsServer } from "./memory-nats";
+export { MpcClusterSimulator, SIMULATOR_ERROR_CODES } from "./simulator";
+export type {
+  SimulatorOptions,
+  SimulatedRequest,
+  SimulatedFailure,
+  SimulatedWallet,
+  SimulatedKeyPair,
+} from "./simulator";
@@ -0,0 +1,245 @@
+import { MsgHdrs } from "nats";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * W3C trace context of a span, as carried in the traceparent header
+ */
+export interface TraceContext {
+  traceId: string; // 32 lowercase hex characters
+  spanId: string; // 16 lowercase hex characters
+  traceFlags: number; // 1 when sampled
+  traceState?: string; // Raw tracestate header, passed through unchanged
+}
+
+export interface StartSpanOptions {
+  kind: "producer" | "consumer";
+  attributes: SpanAttributes;
+  parent?: TraceContext; // Remote parent; the tracer's active span otherwise
+}
+
+export interface TraceSpan {
+  /** Context injected into the headers of outgoing messages */
+  context(): TraceContext;
+  setAttributes(attributes: SpanAttributes): void;
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+/**
+ * Tracing hook used by the client to create spans for publishing requests
+ * and handling results. See createOpenTelemetryTracing for an adapter.
+ */
+export interface TracingHook {
+  startSpan(name: string, options: StartSpanOptions): TraceSpan;
+  /** Run fn with span active, so spans started by result listeners nest */
+  withSpan?<T>(span: TraceSpan, fn: () => T): T;
+}
+
+export const TRACEPARENT_HEADER = "traceparent";
+export const TRACESTATE_HEADER = "tracestate";
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+const noopSpan: TraceSpan = {
+  context: () => ({
+    traceId: INVALID_TRACE_ID,
+    spanId: INVALID_SPAN_ID,
+    traceFlags: 0,
+  }),
+  setAttributes: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Hook that creates no spans (the client default)
+ */
+export const noopTracing: TracingHook = {
+  startSpan: () => noopSpan,
+};
+
+/**
+ * Format a trace context as a W3C traceparent header value
+ */
+export function formatTraceparent(context: TraceContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Parse a W3C traceparent header value
+ * @returns The trace context, or undefined if the value is not valid
+ */
+export function parseTraceparent(
+  traceparent: string,
+  traceState?: string
+): TraceContext | undefined {
+  const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+  if (!match) return undefined;
+  const [, traceId, spanId, flags] = match;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    traceState: traceState || undefined,
+  };
+}
+
+/**
+ * Set the traceparent and tracestate headers of an outgoing message; invalid
+ * contexts, such as those of noop spans, are not injected
+ */
+export function injectTraceContext(h: MsgHdrs, context: TraceContext): void {
+  if (context.traceId === INVALID_TRACE_ID) return;
+  h.set(TRACEPARENT_HEADER, formatTraceparent(context));
+  if (context.traceState) h.set(TRACESTATE_HEADER, context.traceState);
+}
+
+/**
+ * Read the trace context of an incoming message
+ */
+export function extractTraceContext(h?: MsgHdrs): TraceContext | undefined {
+  const traceparent = h?.get(TRACEPARENT_HEADER);
+  if (!h || !traceparent) return undefined;
+  return parseTraceparent(traceparent, h.get(TRACESTATE_HEADER));
+}
+
+/**
+ * Span attributes correlating a span with a wallet, transaction or session
+ */
+export function correlationAttributes(ids: {
+  wallet_id?: unknown;
+  tx_id?: unknown;
+  session_id?: unknown;
+}): SpanAttributes {
+  const attributes: SpanAttributes = {};
+  if (typeof ids.wallet_id === "string" && ids.wallet_id) {
+    attributes["mpcium.wallet_id"] = ids.wallet_id;
+  }
+  if (typeof ids.tx_id === "string" && ids.tx_id) {
+    attributes["mpcium.tx_id"] = ids.tx_id;
+  }
+  if (typeof ids.session_id === "string" && ids.session_id) {
+    attributes["mpcium.session_id"] = ids.session_id;
+  }
+  return attributes;
+}
+
+// Subset of @opentelemetry/api used by the adapter, so it stays optional
+interface OtelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  isRemote?: boolean;
+  traceState?: { serialize(): string };
+}
+
+interface OtelSpan {
+  spanContext(): OtelSpanContext;
+  setAttributes(attributes: SpanAttributes): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+interface OtelTracer {
+  startSpan(
+    name: string,
+    options: { kind: number; attributes: SpanAttributes },
+    context: unknown
+  ): OtelSpan;
+}
+
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string, version?: string): OtelTracer;
+    setSpan(context: unknown, span: OtelSpan): unknown;
+    setSpanContext(context: unknown, spanContext: OtelSpanContext): unknown;
+  };
+  context: {
+    active(): unknown;
+    with<T>(context: unknown, fn: () => T): T;
+  };
+  createTraceState?(raw: string): { serialize(): string };
+}
+
+// SpanKind and SpanStatusCode values of @opentelemetry/api
+const OTEL_SPAN_KIND = { producer: 3, consumer: 4 };
+const OTEL_STATUS_ERROR = 2;
+
+/**
+ * Tracing hook backed by OpenTelemetry
+ * @param api The @opentelemetry/api module
+ * @param tracerName Name of the tracer spans are created with
+ */
+export function createOpenTelemetryTracing(
+  api: OpenTelemetryApi,
+  tracerName = "@fystack/mpcium-ts"
+): TracingHook {
+  const tracer = api.trace.getTracer(tracerName);
+  const otelSpans = new WeakMap<TraceSpan, OtelSpan>();
+
+  return {
+    startSpan(name, options) {
+      let parentContext = api.context.active();
+      if (options.parent) {
+        const { traceState, ...parent } = options.parent;
+        parentContext = api.trace.setSpanContext(parentContext, {
+          ...parent,
+          isRemote: true,
+          traceState:
+            traceState && api.createTraceState
+              ? api.createTraceState(traceState)
+              : undefined,
+        });
+      }
+
+      const otelSpan = tracer.startSpan(
+        name,
+        { kind: OTEL_SPAN_KIND[options.kind], attributes: options.attributes },
+        parentContext
+      );
+      const span: TraceSpan = {
+        context: () => {
+          const { traceId, spanId, traceFlags, traceState } =
+            otelSpan.spanContext();
+          return {
+            traceId,
+            spanId,
+            traceFlags,
+            traceState: traceState?.serialize() || undefined,
+          };
+        },
+        setAttributes: (attributes) => {
+          otelSpan.setAttributes(attributes);
+        },
+        recordError: (error) => {
+          otelSpan.recordException(
+            error instanceof Error ? error : String(error)
+          );
+          otelSpan.setStatus({
+            code: OTEL_STATUS_ERROR,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        },
+        end: () => otelSpan.end(),
+      };
+      otelSpans.set(span, otelSpan);
+      return span;
+    },
+    withSpan(span, fn) {
+      const otelSpan = otelSpans.get(span);
+      if (!otelSpan) return fn();
+      return api.context.with(
+        api.trace.setSpan(api.context.active(), otelSpan),
+        fn
+      );
+    },
+  };
+}
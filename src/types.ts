@@ -1,15 +1,55 @@
-import { NatsConnection } from "nats";
+import { NatsConnection, DeliverPolicy, PubAck } from "nats";
+import type { MpciumError } from "./errors";
+import type { Logger, LogLevel } from "./logger";
+import type { SubjectConfig } from "./subjects";
+import type { RetryPolicy } from "./retry";
+import type { RequestJournal, JournalEntry } from "./journal";
+import type { RateLimitOptions } from "./ratelimit";
+import type { MetricsRecorder } from "./metrics";
+import type { TracingHook } from "./tracing";
+import type { StreamSpecs } from "./admin";
+import type { RequestMiddleware, ResultMiddleware } from "./middleware";
+import type { TransactionPolicy } from "./policy";
+import type { InitiatorSigner } from "./signer";
 
 export enum KeyType {
   Secp256k1 = "secp256k1",
   Ed25519 = "ed25519",
 }
 
+export type RequestKind = "keygen" | "signing" | "reshare";
+
 export interface MpciumOptions {
   nc: NatsConnection;
-  keyPath: string;
+  signer?: InitiatorSigner; // Signs requests; takes precedence over keyPath
+  keyPath?: string; // Initiator key file, used when no signer is given
   password?: string; // Optional password for encrypted keys
   encrypted?: boolean; // Explicitly specify if key is encrypted
+  onError?: (error: MpciumError) => void; // Receives failures from background consumers
+  logger?: Logger; // Structured logger (silent if not provided)
+  logLevel?: LogLevel | "silent"; // Minimum level forwarded to the logger
+  namespace?: string; // Prefix isolating subjects, streams and consumers
+  subjects?: Partial<SubjectConfig>; // Override individual subject, stream or consumer names
+  consumer?: ConsumerOptions; // Result consumer strategy and settings
+  provision?: boolean; // Create missing streams and durable consumers (default: true)
+  streams?: StreamSpecs; // Stream settings used when provisioning
+  transport?: TransportPolicy; // How requests are published (default: prefer-jetstream)
+  retry?: {
+    publish?: Partial<RetryPolicy>; // JetStream publishes of requests
+    consumer?: Partial<RetryPolicy>; // Setting up result consumers
+  };
+  journal?: RequestJournal; // Records in-flight requests for crash recovery
+  journalTtlMs?: number; // Pending journal entries older than this are expired
+  rateLimit?: RateLimitOptions; // Client-side rate limits and in-flight cap
+  metrics?: MetricsRecorder; // Receives request, result and consumer metrics
+  tracing?: TracingHook; // Creates spans and propagates W3C trace context
+  validateResults?: boolean; // Check result events against their schema (default: true)
+  deadLetter?: boolean; // Publish invalid or repeatedly failing results to the dead-letter subject
+  middleware?: {
+    request?: RequestMiddleware[]; // Run before requests are signed and published
+    result?: ResultMiddleware[]; // Run before results reach waiters and listeners
+  };
+  policy?: TransactionPolicy; // Rules signing requests must pass before they are signed
 }
 
 export interface GenerateKeyMessage {
@@ -31,8 +71,8 @@ export interface KeygenResultEvent {
   ecdsa_pub_key?: string;
   eddsa_pub_key?: string;
   result_type?: string;
-  error_reason?:string;
-  error_code?:string;
+  error_reason?: string;
+  error_code?: string;
 }
 
 export enum SigningResultType {
@@ -50,6 +90,7 @@ export interface SigningResultEvent {
   signature_recovery: string;
   signature: string;
   result_type: SigningResultType;
+  error_code?: string;
   error_reason?: string;
 }
 
@@ -72,3 +113,118 @@ export interface ResharingResultEvent {
   error_code?: string;
   error_reason?: string;
 }
+
+export interface SignTransactionParams {
+  walletId: string;
+  keyType: KeyType;
+  networkInternalCode: string;
+  tx: string;
+  txId?: string; // Optional transaction ID (generates UUID if not provided)
+  metadata?: Record<string, unknown>; // Caller data stored in the request journal
+}
+
+export interface ReshareKeysParams {
+  sessionId?: string;
+  walletId: string;
+  nodeIds: string[];
+  newThreshold: number;
+  keyType: KeyType;
+  metadata?: Record<string, unknown>; // Caller data stored in the request journal
+}
+
+export interface WaitOptions {
+  timeoutMs?: number; // Reject if no result arrives within this many milliseconds
+  signal?: AbortSignal; // Reject when the signal is aborted
+}
+
+export interface MpciumClientEvents {
+  walletCreationResult: KeygenResultEvent;
+  signResult: SigningResultEvent;
+  resharingResult: ResharingResultEvent;
+}
+
+/**
+ * - shared: all clients share one durable consumer per result type and each
+ *   result is delivered to only one of them (work queue)
+ * - per-instance: every client has its own consumer and sees every result
+ * - filtered: like per-instance, but listeners only receive results for
+ *   requests issued by this client
+ */
+export type ConsumerMode = "shared" | "per-instance" | "filtered";
+
+export interface ConsumerOptions {
+  mode?: ConsumerMode; // Default: shared
+  instanceId?: string; // Suffix of per-instance durable names; generated names are deleted on close
+  durable?: boolean; // Per-instance consumers are durable (default) or ephemeral
+  ackWaitMs?: number; // Time before an unacknowledged result is redelivered
+  maxDeliver?: number; // Maximum delivery attempts per result (default: 3)
+  deliverPolicy?: DeliverPolicy; // Default: all for shared, new otherwise
+  inactiveThresholdMs?: number; // Idle time after which the server removes the consumer
+}
+
+/**
+ * - jetstream-only: publish through JetStream and fail if it is unavailable
+ * - core-only: publish with core NATS only
+ * - prefer-jetstream: try JetStream, fall back to core NATS on failure
+ */
+export type TransportPolicy =
+  | "jetstream-only"
+  | "core-only"
+  | "prefer-jetstream";
+
+export interface PublishResult {
+  id: string; // Wallet ID, tx ID or session ID of the request
+  subject: string;
+  transport: "jetstream" | "core";
+  ack?: PubAck; // JetStream publish ack (ack.duplicate if deduplicated by the stream)
+}
+
+export interface RecoveredRequests {
+  reattached: JournalEntry[]; // Still waiting for results, consumers started
+  expired: JournalEntry[]; // Older than journalTtlMs
+}
+
+export interface CloseOptions {
+  gracePeriodMs?: number; // How long to wait for in-flight results (default: 30s)
+  drainConnection?: boolean; // Drain the NatsConnection passed in the options
+}
+
+export interface CloseResult {
+  outstanding: { kind: RequestKind; id: string; walletId: string }[]; // No result received
+}
+
+export type ConnectionState =
+  | "connected"
+  | "disconnected"
+  | "reconnecting"
+  | "closed";
+
+export interface HealthReport {
+  healthy: boolean; // Connected, JetStream available, streams and consumers present
+  connection: { state: ConnectionState; server: string };
+  jetstream: { available: boolean; error?: string };
+  streams: {
+    name: string;
+    exists: boolean;
+    subjects?: string[];
+    retention?: string;
+    storage?: string;
+    replicas?: number;
+    messages?: number;
+    bytes?: number;
+    error?: string;
+  }[];
+  consumers: {
+    kind: RequestKind;
+    name: string;
+    exists: boolean;
+    pending?: number; // Results not yet delivered to the consumer
+    ackPending?: number; // Results delivered but not acknowledged
+    redelivered?: number;
+    waiting?: number;
+    error?: string;
+  }[];
+  lastResultAt?: number; // Epoch milliseconds of the last result received
+  lastResultAgeMs?: number;
+  checkedAt: number;
+}
@@ -2,8 +2,16 @@ import * as ed25519 from "@noble/ed25519";
 import { readFileSync } from "fs";
 import * as age from "age-encryption";
 import { GenerateKeyMessage, SignTxMessage } from "./types";
-import { createHash } from "crypto";
+import { createHash, randomBytes } from "crypto";
 import { ResharingMessage } from "./types";
+import { KeyLoadError, MpciumError } from "./errors";
+import {
+  canonicalPayload,
+  GENERATE_KEY_SCHEMA,
+  SIGN_TX_SCHEMA,
+  RESHARING_SCHEMA,
+} from "./canonical";
+import type { InitiatorSigner } from "./signer";
 
 // Set up SHA-512 implementation for @noble/ed25519
 ed25519.etc.sha512Sync = (...messages) => {
@@ -14,6 +22,14 @@ ed25519.etc.sha512Sync = (...messages) => {
   return sha512.digest();
 };
 
+/**
+ * Generate a new Ed25519 initiator private key
+ * @returns Private key as Buffer (32 bytes)
+ */
+export function generatePrivateKey(): Buffer {
+  return randomBytes(32);
+}
+
 /**
  * Load a private key from a file path
  * @param path Path to the key file (hex encoded)
@@ -24,7 +40,9 @@ export function loadPrivateKey(path: string): Buffer {
     const keyHex = readFileSync(path, "utf8").trim();
     return Buffer.from(keyHex, "hex");
   } catch (error) {
-    throw new Error(`Failed to load private key: ${error}`);
+    throw new KeyLoadError(`Failed to load private key: ${error}`, {
+      cause: error,
+    });
   }
 }
 
@@ -50,7 +68,9 @@ export async function loadEncryptedPrivateKey(
     const decrypted = await decrypter.decrypt(encryptedData, "text");
     return Buffer.from(decrypted.trim(), "hex");
   } catch (error) {
-    throw new Error(`Failed to decrypt key file: ${error}`);
+    throw new KeyLoadError(`Failed to decrypt key file: ${error}`, {
+      cause: error,
+    });
   }
 }
 
@@ -77,7 +97,9 @@ export async function encryptPrivateKey(
     // Encrypt the key and return
     return await encrypter.encrypt(keyHex);
   } catch (error) {
-    throw new Error(`Failed to encrypt private key: ${error}`);
+    throw new MpciumError(`Failed to encrypt private key: ${error}`, {
+      cause: error,
+    });
   }
 }
 
@@ -111,107 +133,178 @@ export async function signMessage(
     // Return as Buffer
     return Buffer.from(signature);
   } catch (error) {
-    throw new Error(`Ed25519 signing error: ${error}`);
+    throw new MpciumError(`Ed25519 signing error: ${error}`, {
+      cause: error,
+    });
   }
 }
 
 /**
  * Sign a wallet generation message with Ed25519
  * @param msg Wallet generation message
- * @param privateKey Private key Buffer
+ * @param signer Private key Buffer (32 bytes) or initiator signer
  * @returns Signature as Buffer
  */
 export async function signGenerateKeyMessage(
   msg: GenerateKeyMessage,
-  privateKey: Buffer
+  signer: Buffer | InitiatorSigner
 ): Promise<Buffer> {
-  // Create data to sign - Go implementation just signs the wallet ID directly
-  const dataToSign = msg.wallet_id;
-
-  try {
-    // Convert string to buffer for signing
-    const dataBuffer = Buffer.from(dataToSign);
-
-    // Ensure the private key is exactly 32 bytes
-    if (privateKey.length !== 32) {
-      throw new Error(
-        `Invalid Ed25519 private key length: ${privateKey.length}, expected 32 bytes`
-      );
-    }
-
-    // Convert Buffer to Uint8Array for noble-ed25519
-    const privateKeyBytes = new Uint8Array(privateKey);
-
-    // Sign the message with Ed25519
-    const signature = ed25519.sign(dataBuffer, privateKeyBytes);
-
-    // Return as Buffer
-    return Buffer.from(signature);
-  } catch (error) {
-    throw new Error(`Ed25519 signing error: ${error}`);
-  }
+  return signPayload(canonicalPayload(GENERATE_KEY_SCHEMA, msg), signer);
 }
 
 /**
  * Sign a transaction signing message with Ed25519
  * @param msg Transaction signing message
- * @param privateKey Private key Buffer
+ * @param signer Private key Buffer (32 bytes) or initiator signer
  * @returns Signature as Buffer
  */
 export async function signSignTxMessage(
   msg: SignTxMessage,
-  privateKey: Buffer
+  signer: Buffer | InitiatorSigner
 ): Promise<Buffer> {
-  // Create data to sign following the Go implementation
-  const dataToSign = {
-    key_type: msg.key_type,
-    wallet_id: msg.wallet_id,
-    network_internal_code: msg.network_internal_code,
-    tx_id: msg.tx_id,
-    tx: msg.tx,
-  };
+  return signPayload(canonicalPayload(SIGN_TX_SCHEMA, msg), signer);
+}
 
-  try {
-    // Create canonical message format for signing
-    const dataBuffer = Buffer.from(JSON.stringify(dataToSign));
+/**
+ * Sign a resharing message
+ * @param msg Resharing message
+ * @param signer Private key Buffer (32 bytes) or initiator signer
+ * @returns Signature as Buffer
+ */
+export async function signResharingMessage(
+  msg: ResharingMessage,
+  signer: Buffer | InitiatorSigner
+): Promise<Buffer> {
+  return signPayload(canonicalPayload(RESHARING_SCHEMA, msg), signer);
+}
+
+/**
+ * Derive the Ed25519 public key of an initiator private key
+ * @param privateKey Private key Buffer (32 bytes)
+ * @returns Public key as Buffer (32 bytes)
+ */
+export function derivePublicKey(privateKey: Buffer): Buffer {
+  if (privateKey.length !== 32) {
+    throw new KeyLoadError(
+      `Invalid Ed25519 private key length: ${privateKey.length}, expected 32 bytes`
+    );
+  }
+  return Buffer.from(ed25519.getPublicKey(new Uint8Array(privateKey)));
+}
 
+/**
+ * Verify the initiator signature of a wallet generation message
+ * @param msg Signed wallet generation message
+ * @param publicKey Initiator public key (32 bytes)
+ * @returns false if the signature is missing or does not match
+ */
+export async function verifyGenerateKeyMessage(
+  msg: GenerateKeyMessage,
+  publicKey: Buffer | Uint8Array
+): Promise<boolean> {
+  return verifyPayload(
+    canonicalPayload(GENERATE_KEY_SCHEMA, msg),
+    msg.signature,
+    publicKey
+  );
+}
+
+/**
+ * Verify the initiator signature of a transaction signing message
+ * @param msg Signed transaction signing message
+ * @param publicKey Initiator public key (32 bytes)
+ * @returns false if the signature is missing or does not match
+ */
+export async function verifySignTxMessage(
+  msg: SignTxMessage,
+  publicKey: Buffer | Uint8Array
+): Promise<boolean> {
+  return verifyPayload(
+    canonicalPayload(SIGN_TX_SCHEMA, msg),
+    msg.signature,
+    publicKey
+  );
+}
+
+/**
+ * Verify the initiator signature of a resharing message
+ * @param msg Signed resharing message
+ * @param publicKey Initiator public key (32 bytes)
+ * @returns false if the signature is missing or does not match
+ */
+export async function verifyResharingMessage(
+  msg: ResharingMessage,
+  publicKey: Buffer | Uint8Array
+): Promise<boolean> {
+  return verifyPayload(
+    canonicalPayload(RESHARING_SCHEMA, msg),
+    msg.signature,
+    publicKey
+  );
+}
+
+async function signPayload(
+  payload: Buffer,
+  privateKey: Buffer | InitiatorSigner
+): Promise<Buffer> {
+  if (!Buffer.isBuffer(privateKey)) {
+    return signWithSigner(payload, privateKey);
+  }
+  try {
     // Ensure the private key is exactly 32 bytes
     if (privateKey.length !== 32) {
       throw new Error(
         `Invalid Ed25519 private key length: ${privateKey.length}, expected 32 bytes`
       );
     }
-
-    // Convert Buffer to Uint8Array for noble-ed25519
-    const privateKeyBytes = new Uint8Array(privateKey);
-
-    // Sign the message with Ed25519
-    const signature = ed25519.sign(dataBuffer, privateKeyBytes);
-
-    // Return as Buffer
-    return Buffer.from(signature);
+    return Buffer.from(ed25519.sign(payload, new Uint8Array(privateKey)));
   } catch (error) {
-    throw new Error(`Ed25519 signing error: ${error}`);
+    throw new MpciumError(`Ed25519 signing error: ${error}`, {
+      cause: error,
+    });
   }
 }
 
-/**
- * Sign a resharing message
- */
-export async function signResharingMessage(
-  msg: ResharingMessage,
-  privateKey: Buffer
+async function signWithSigner(
+  payload: Buffer,
+  signer: InitiatorSigner
 ): Promise<Buffer> {
-  // Create message object with fields in the exact order as Go struct (excluding signature)
-  const msgWithoutSignature = {
-    session_id: msg.session_id,
-    node_ids: msg.node_ids,
-    new_threshold: msg.new_threshold,
-    key_type: msg.key_type,
-    wallet_id: msg.wallet_id,
-  };
-  
-  const messageBuffer = Buffer.from(JSON.stringify(msgWithoutSignature));
-  const privateKeyBytes = new Uint8Array(privateKey);
-  return Buffer.from(ed25519.sign(messageBuffer, privateKeyBytes));
+  let signature: Uint8Array;
+  try {
+    signature = await signer.sign(payload);
+  } catch (error) {
+    if (error instanceof MpciumError) throw error;
+    throw new MpciumError(`Initiator signer failed: ${error}`, {
+      cause: error,
+    });
+  }
+  if (signature.length !== 64) {
+    throw new MpciumError(
+      `Invalid Ed25519 signature length from initiator signer: ${signature.length}, expected 64 bytes`
+    );
+  }
+  return Buffer.from(signature);
+}
+
+function verifyPayload(
+  payload: Buffer,
+  signature: string | undefined,
+  publicKey: Buffer | Uint8Array
+): boolean {
+  if (publicKey.length !== 32) {
+    throw new MpciumError(
+      `Invalid Ed25519 public key length: ${publicKey.length}, expected 32 bytes`
+    );
+  }
+  if (!signature) return false;
+  try {
+    return ed25519.verify(
+      Buffer.from(signature, "base64"),
+      payload,
+      new Uint8Array(publicKey)
+    );
+  } catch {
+    // Malformed signature
+    return false;
+  }
 }
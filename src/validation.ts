@@ -0,0 +1,178 @@
+import { KeyType, RequestKind, SigningResultType } from "./types";
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+type Fields = Record<string, unknown>;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const RESULT_TYPES = ["success", "error"];
+const SIGNING_RESULT_TYPES: unknown[] = [
+  SigningResultType.Unknown,
+  SigningResultType.Success,
+  SigningResultType.Error,
+];
+const KEY_TYPES: unknown[] = Object.values(KeyType);
+
+/**
+ * Check a decoded result event against the schema of its kind
+ * @param kind Kind of request the result answers
+ * @param data Decoded JSON payload
+ * @returns Every problem found; empty if the event is valid
+ */
+export function validateResultEvent(
+  kind: RequestKind,
+  data: unknown
+): ValidationIssue[] {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return [{ field: "", message: "is not a JSON object" }];
+  }
+  const event = data as Fields;
+  switch (kind) {
+    case "keygen":
+      return validateKeygenResult(event);
+    case "signing":
+      return validateSigningResult(event);
+    case "reshare":
+      return validateResharingResult(event);
+  }
+}
+
+function validateKeygenResult(event: Fields): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  requireString(issues, event, "wallet_id");
+  optionalEnum(issues, event, "result_type", RESULT_TYPES);
+  optionalBase64(issues, event, "ecdsa_pub_key");
+  optionalBase64(issues, event, "eddsa_pub_key");
+  optionalString(issues, event, "error_code");
+  optionalString(issues, event, "error_reason");
+
+  if (
+    event.result_type !== "error" &&
+    !event.ecdsa_pub_key &&
+    !event.eddsa_pub_key
+  ) {
+    issues.push({
+      field: "ecdsa_pub_key",
+      message: "successful result has no public key",
+    });
+  }
+  return issues;
+}
+
+function validateSigningResult(event: Fields): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  requireString(issues, event, "wallet_id");
+  requireString(issues, event, "tx_id");
+  requireEnum(issues, event, "result_type", SIGNING_RESULT_TYPES);
+  optionalString(issues, event, "network_internal_code");
+  optionalBase64(issues, event, "r");
+  optionalBase64(issues, event, "s");
+  optionalBase64(issues, event, "signature_recovery");
+  optionalBase64(issues, event, "signature");
+  optionalString(issues, event, "error_code");
+  optionalString(issues, event, "error_reason");
+
+  if (event.result_type === SigningResultType.Success && !event.signature) {
+    issues.push({
+      field: "signature",
+      message: "successful result has no signature",
+    });
+  }
+  return issues;
+}
+
+function validateResharingResult(event: Fields): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  requireString(issues, event, "wallet_id");
+  requireEnum(issues, event, "result_type", RESULT_TYPES);
+  optionalString(issues, event, "session_id");
+  optionalBase64(issues, event, "pub_key");
+  optionalEnum(issues, event, "key_type", KEY_TYPES);
+  optionalString(issues, event, "error_code");
+  optionalString(issues, event, "error_reason");
+
+  const threshold = event.new_threshold;
+  if (
+    threshold !== undefined &&
+    threshold !== null &&
+    !(Number.isInteger(threshold) && (threshold as number) >= 0)
+  ) {
+    issues.push({
+      field: "new_threshold",
+      message: "must be a non-negative integer",
+    });
+  }
+  return issues;
+}
+
+function requireString(
+  issues: ValidationIssue[],
+  event: Fields,
+  field: string
+): void {
+  const value = event[field];
+  if (typeof value !== "string" || value === "") {
+    issues.push({ field, message: "is required" });
+  }
+}
+
+function optionalString(
+  issues: ValidationIssue[],
+  event: Fields,
+  field: string
+): void {
+  const value = event[field];
+  if (value !== undefined && value !== null && typeof value !== "string") {
+    issues.push({ field, message: "must be a string" });
+  }
+}
+
+function requireEnum(
+  issues: ValidationIssue[],
+  event: Fields,
+  field: string,
+  values: unknown[]
+): void {
+  if (event[field] === undefined || event[field] === null) {
+    issues.push({ field, message: "is required" });
+  } else {
+    optionalEnum(issues, event, field, values);
+  }
+}
+
+function optionalEnum(
+  issues: ValidationIssue[],
+  event: Fields,
+  field: string,
+  values: unknown[]
+): void {
+  const value = event[field];
+  if (value !== undefined && value !== null && !values.includes(value)) {
+    issues.push({
+      field,
+      message: `must be one of ${values
+        .map((v) => JSON.stringify(v))
+        .join(", ")}`,
+    });
+  }
+}
+
+// Byte fields of the Go events are marshalled as base64 (null when empty)
+function optionalBase64(
+  issues: ValidationIssue[],
+  event: Fields,
+  field: string
+): void {
+  const value = event[field];
+  if (value === undefined || value === null) return;
+  if (
+    typeof value !== "string" ||
+    value.length % 4 !== 0 ||
+    !BASE64_PATTERN.test(value)
+  ) {
+    issues.push({ field, message: "must be base64 encoded" });
+  }
+}
@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RetentionPolicy, StorageType } from "nats";
+import { MpciumAdmin, ProvisionResult } from "../src/admin";
+import { MpciumClient } from "../src/client";
+import { MemoryKeySigner } from "../src/signer";
+import { resolveSubjects } from "../src/subjects";
+import { MemoryNatsServer, MpcClusterSimulator } from "../src/testing";
+import { TEST_PRIVATE_KEY } from "./helpers";
+
+function actions(results: ProvisionResult[]): Record<string, string> {
+  return Object.fromEntries(
+    results.map((result) => [result.name, result.action])
+  );
+}
+
+test("provision creates every resource once", async () => {
+  const server = new MemoryNatsServer();
+  const admin = new MpciumAdmin({ nc: server.connect() });
+
+  assert.ok(
+    (await admin.checkDrift()).every((result) => result.action === "missing")
+  );
+  assert.deepEqual(actions(await admin.provision()), {
+    mpc: "created",
+    "mpc-keygen": "created",
+    "mpc-signing": "created",
+    "mpc-dead-letter": "created",
+    mpc_keygen_result: "created",
+    mpc_signing_result: "created",
+    mpc_reshare_result: "created",
+  });
+  assert.ok(
+    (await admin.provision()).every((result) => result.action === "unchanged")
+  );
+  assert.ok(
+    (await admin.checkDrift()).every((result) => result.action === "unchanged")
+  );
+});
+
+test("mutable drift is reported, and updated only when asked", async () => {
+  const server = new MemoryNatsServer();
+  const nc = server.connect();
+  await new MpciumAdmin({
+    nc,
+    streams: { results: { maxBytes: 1024 } },
+    consumer: { maxDeliver: 10 },
+  }).provision();
+
+  const admin = new MpciumAdmin({ nc });
+  const drifted = await admin.provision();
+  const results = drifted.find((result) => result.name === "mpc")!;
+  assert.equal(results.action, "drifted");
+  assert.deepEqual(
+    results.drift.map(({ field, mutable }) => ({ field, mutable })),
+    [{ field: "max_bytes", mutable: true }]
+  );
+  assert.equal(
+    drifted.find((result) => result.name === "mpc_signing_result")!.action,
+    "drifted"
+  );
+
+  const updated = await admin.provision({ updateDrifted: true });
+  assert.equal(actions(updated).mpc, "updated");
+  assert.equal(actions(updated).mpc_signing_result, "updated");
+  const jsm = await nc.jetstreamManager();
+  assert.equal(
+    (await jsm.streams.info("mpc")).config.max_bytes,
+    100 * 1024 * 1024
+  );
+  assert.ok(
+    (await admin.checkDrift()).every((result) => result.action === "unchanged")
+  );
+});
+
+test("immutable drift is reported but not applied", async () => {
+  const server = new MemoryNatsServer();
+  const nc = server.connect();
+  await new MpciumAdmin({
+    nc,
+    streams: {
+      results: {
+        retention: RetentionPolicy.Limits,
+        storage: StorageType.Memory,
+      },
+    },
+  }).ensureStreams(["results"]);
+
+  const [result] = await new MpciumAdmin({ nc }).ensureStreams(["results"], {
+    updateDrifted: true,
+  });
+  assert.equal(result.action, "drifted");
+  assert.deepEqual(
+    result.drift.map(({ field, mutable }) => ({ field, mutable })),
+    [
+      { field: "retention", mutable: false },
+      { field: "storage", mutable: false },
+    ]
+  );
+  const jsm = await nc.jetstreamManager();
+  const { config } = await jsm.streams.info("mpc");
+  assert.equal(config.retention, RetentionPolicy.Limits);
+  assert.equal(config.storage, StorageType.Memory);
+});
+
+test("an admin with a namespace and subject overrides provisions what the client uses", async () => {
+  const server = new MemoryNatsServer();
+  const namespace = "tenant-a";
+  const overrides = { resultStream: "tenant-a-results" };
+  const results = await new MpciumAdmin({
+    nc: server.connect(),
+    namespace,
+    subjects: overrides,
+  }).provision();
+
+  const subjects = resolveSubjects(namespace, overrides);
+  assert.deepEqual(
+    results.map((result) => result.name).sort(),
+    [
+      subjects.resultStream,
+      subjects.keygenStream,
+      subjects.signingStream,
+      subjects.deadLetterStream,
+      subjects.keygenConsumer,
+      subjects.signingConsumer,
+      subjects.reshareConsumer,
+    ].sort()
+  );
+
+  const signer = new MemoryKeySigner(TEST_PRIVATE_KEY);
+  const simulator = await MpcClusterSimulator.start({
+    nc: server.connect(),
+    initiatorPublicKey: await signer.publicKey(),
+    namespace,
+    subjects: overrides,
+  });
+  // Without provisioning the client relies on what the admin created
+  const client = await MpciumClient.create({
+    nc: server.connect(),
+    signer,
+    namespace,
+    subjects: overrides,
+    provision: false,
+  });
+  try {
+    const result = await client.createWalletAndWait("wallet-1");
+    assert.equal(result.wallet_id, "wallet-1");
+  } finally {
+    await client.close({ gracePeriodMs: 0 });
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runSignBatch } from "../src/batch";
+import { Logger, silentLogger } from "../src/logger";
+import {
+  KeyType,
+  SignTransactionParams,
+  SigningResultEvent,
+  SigningResultType,
+  WaitOptions,
+} from "../src/types";
+
+function requests(count: number): SignTransactionParams[] {
+  return Array.from({ length: count }, (_, i) => ({
+    walletId: "wallet-1",
+    keyType: KeyType.Ed25519,
+    networkInternalCode: "solana:devnet",
+    tx: Buffer.from(`tx-${i}`).toString("base64"),
+    txId: `tx-${i}`,
+  }));
+}
+
+function signed(params: SignTransactionParams): SigningResultEvent {
+  return {
+    wallet_id: params.walletId,
+    tx_id: params.txId!,
+    network_internal_code: params.networkInternalCode,
+    r: "",
+    s: "",
+    signature_recovery: "",
+    signature: "c2ln",
+    result_type: SigningResultType.Success,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("signBatch keeps at most concurrency requests in flight", async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const result = await runSignBatch(
+    async (params) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await sleep(10);
+      inFlight--;
+      return signed(params);
+    },
+    requests(7),
+    { concurrency: 3 }
+  );
+  assert.equal(maxInFlight, 3);
+  assert.equal(result.succeeded, 7);
+  assert.deepEqual(
+    result.items.map((item) => item.txId),
+    requests(7).map((params) => params.txId)
+  );
+});
+
+test("signBatch skips requests once the deadline passed", async () => {
+  const timeouts: (number | undefined)[] = [];
+  const result = await runSignBatch(
+    async (params, options: WaitOptions) => {
+      timeouts.push(options.timeoutMs);
+      await sleep(60);
+      return signed(params);
+    },
+    requests(4),
+    { concurrency: 1, timeoutMs: 100 }
+  );
+  assert.deepEqual(
+    result.items.map((item) => item.status),
+    ["success", "success", "skipped", "skipped"]
+  );
+  assert.equal(result.skipped, 2);
+  assert.ok(
+    timeouts[1]! < timeouts[0]!,
+    "later requests get the remaining time"
+  );
+});
+
+test("signBatch with stopOnError skips the requests after a failure", async () => {
+  const result = await runSignBatch(
+    async (params) => {
+      if (params.txId === "tx-1") throw new Error("rejected");
+      return signed(params);
+    },
+    requests(4),
+    { concurrency: 1, stopOnError: true }
+  );
+  assert.deepEqual(
+    result.items.map((item) => item.status),
+    ["success", "failed", "skipped", "skipped"]
+  );
+  assert.deepEqual(
+    {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+    },
+    { succeeded: 1, failed: 1, skipped: 2 }
+  );
+});
+
+test("signBatch records each item once when onProgress throws", async (t) => {
+  const logger: Logger = { ...silentLogger, error: () => undefined };
+  const logged = t.mock.method(logger, "error");
+  let progressCalls = 0;
+  const result = await runSignBatch(
+    async (params) => signed(params),
+    requests(3),
+    {
+      onProgress: () => {
+        progressCalls++;
+        throw new Error("broken callback");
+      },
+    },
+    logger
+  );
+  assert.deepEqual(
+    {
+      succeeded: result.succeeded,
+      failed: result.failed,
+      skipped: result.skipped,
+    },
+    { succeeded: 3, failed: 0, skipped: 0 }
+  );
+  assert.equal(progressCalls, 3);
+  assert.equal(logged.mock.callCount(), 3);
+});
@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import * as path from "path";
+import {
+  canonicalPayload,
+  GENERATE_KEY_SCHEMA,
+  RESHARING_SCHEMA,
+  SIGN_TX_SCHEMA,
+} from "../src/canonical";
+import {
+  derivePublicKey,
+  signGenerateKeyMessage,
+  signResharingMessage,
+  signSignTxMessage,
+  verifyGenerateKeyMessage,
+  verifyResharingMessage,
+  verifySignTxMessage,
+} from "../src/utils";
+import { MpciumError } from "../src/errors";
+import {
+  GenerateKeyMessage,
+  ResharingMessage,
+  SignTxMessage,
+} from "../src/types";
+
+interface Vector {
+  name: string;
+  type: "GenerateKeyMessage" | "SignTxMessage" | "ResharingMessage";
+  message: Record<string, unknown>;
+  payload: string;
+  payload_hex: string;
+  signature: string;
+}
+
+// Shared with the Go implementation: both must produce these bytes
+const vectors: {
+  private_key: string;
+  public_key: string;
+  vectors: Vector[];
+} = JSON.parse(
+  readFileSync(path.join(__dirname, "vectors/signed-messages.json"), "utf8")
+);
+const privateKey = Buffer.from(vectors.private_key, "hex");
+const publicKey = Buffer.from(vectors.public_key, "hex");
+
+// Encode, sign and verify a vector's message with the functions of its type
+async function run(vector: Vector) {
+  switch (vector.type) {
+    case "GenerateKeyMessage": {
+      const msg = vector.message as unknown as GenerateKeyMessage;
+      const signature = await signGenerateKeyMessage(msg, privateKey);
+      return {
+        payload: canonicalPayload(GENERATE_KEY_SCHEMA, msg),
+        signature,
+        verified: await verifyGenerateKeyMessage(
+          { ...msg, signature: signature.toString("base64") },
+          publicKey
+        ),
+      };
+    }
+    case "SignTxMessage": {
+      const msg = vector.message as unknown as SignTxMessage;
+      const signature = await signSignTxMessage(msg, privateKey);
+      return {
+        payload: canonicalPayload(SIGN_TX_SCHEMA, msg),
+        signature,
+        verified: await verifySignTxMessage(
+          { ...msg, signature: signature.toString("base64") },
+          publicKey
+        ),
+      };
+    }
+    case "ResharingMessage": {
+      const msg = vector.message as unknown as ResharingMessage;
+      const signature = await signResharingMessage(msg, privateKey);
+      return {
+        payload: canonicalPayload(RESHARING_SCHEMA, msg),
+        signature,
+        verified: await verifyResharingMessage(
+          { ...msg, signature: signature.toString("base64") },
+          publicKey
+        ),
+      };
+    }
+  }
+}
+
+test("the vector key pair matches", () => {
+  assert.deepEqual(derivePublicKey(privateKey), publicKey);
+});
+
+for (const vector of vectors.vectors) {
+  test(`golden vector ${vector.name}`, async () => {
+    const { payload, signature, verified } = await run(vector);
+    assert.equal(payload.toString("hex"), vector.payload_hex);
+    assert.equal(payload.toString("utf8"), vector.payload);
+    assert.equal(signature.toString("hex"), vector.signature);
+    assert.equal(verified, true);
+  });
+}
+
+test("fields outside the schema and the signature are not signed", () => {
+  const msg = vectors.vectors.find((v) => v.type === "SignTxMessage")!
+    .message as unknown as SignTxMessage;
+  const extended = { ...msg, signature: "c2ln", extra: "ignored" };
+  assert.deepEqual(
+    canonicalPayload(SIGN_TX_SCHEMA, extended),
+    canonicalPayload(SIGN_TX_SCHEMA, msg)
+  );
+});
+
+test("fields of the wrong type are rejected", () => {
+  const msg = vectors.vectors.find((v) => v.type === "ResharingMessage")!
+    .message as unknown as ResharingMessage;
+  assert.throws(
+    () =>
+      canonicalPayload(RESHARING_SCHEMA, {
+        ...msg,
+        new_threshold: "2" as unknown as number,
+      }),
+    MpciumError
+  );
+  assert.throws(
+    () =>
+      canonicalPayload(RESHARING_SCHEMA, {
+        ...msg,
+        node_ids: [1] as unknown as string[],
+      }),
+    MpciumError
+  );
+});
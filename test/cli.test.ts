@@ -0,0 +1,117 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { NEW_PASSPHRASE_ENV, PASSPHRASE_ENV, runCli } from "../src/cli";
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function cli(t: TestContext, ...args: string[]): Promise<CliRun> {
+  let stdout = "";
+  let stderr = "";
+  const out = t.mock.method(process.stdout, "write", (chunk: string) => {
+    stdout += chunk;
+    return true;
+  });
+  const err = t.mock.method(process.stderr, "write", (chunk: string) => {
+    stderr += chunk;
+    return true;
+  });
+  try {
+    return { code: await runCli(args), stdout, stderr };
+  } finally {
+    out.mock.restore();
+    err.mock.restore();
+  }
+}
+
+async function tempDir(t: TestContext): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mpcium-cli-"));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+function setEnv(t: TestContext, name: string, value: string): void {
+  const previous = process.env[name];
+  process.env[name] = value;
+  t.after(() => {
+    if (previous === undefined) delete process.env[name];
+    else process.env[name] = previous;
+  });
+}
+
+test("keys generate writes a key whose public key pubkey and verify print", async (t) => {
+  const keyPath = path.join(await tempDir(t), "initiator.key");
+
+  const generated = await cli(t, "keys", "generate", "--out", keyPath);
+  assert.equal(generated.code, 0);
+  const publicKey = generated.stdout.trim();
+  assert.match(publicKey, /^[0-9a-f]{64}$/);
+
+  const pubkey = await cli(t, "keys", "pubkey", keyPath, "--config");
+  assert.equal(pubkey.stdout, `event_initiator_pubkey: "${publicKey}"\n`);
+
+  const verified = await cli(
+    t,
+    "keys",
+    "verify",
+    keyPath,
+    "--public-key",
+    publicKey
+  );
+  assert.equal(verified.code, 0);
+  const mismatch = await cli(
+    t,
+    "keys",
+    "verify",
+    keyPath,
+    "--public-key",
+    "00"
+  );
+  assert.equal(mismatch.code, 1);
+
+  const again = await cli(t, "keys", "generate", "--out", keyPath);
+  assert.equal(again.code, 1);
+  assert.match(again.stderr, /already exists/);
+});
+
+test("keys encrypt, reencrypt and decrypt keep the same key", async (t) => {
+  const keyPath = path.join(await tempDir(t), "initiator.key");
+  setEnv(t, PASSPHRASE_ENV, "first passphrase");
+  setEnv(t, NEW_PASSPHRASE_ENV, "second passphrase");
+
+  const publicKey = (await cli(t, "keys", "generate", "--out", keyPath)).stdout;
+  assert.equal((await cli(t, "keys", "encrypt", keyPath)).code, 0);
+  assert.equal((await cli(t, "keys", "reencrypt", `${keyPath}.age`)).code, 0);
+
+  process.env[PASSPHRASE_ENV] = "second passphrase";
+  const decryptedPath = `${keyPath}.decrypted`;
+  const decrypted = await cli(
+    t,
+    "keys",
+    "decrypt",
+    `${keyPath}.age`,
+    "--out",
+    decryptedPath
+  );
+  assert.equal(decrypted.code, 0);
+  assert.equal(
+    (await cli(t, "keys", "pubkey", decryptedPath)).stdout,
+    publicKey
+  );
+
+  process.env[PASSPHRASE_ENV] = "first passphrase";
+  assert.equal((await cli(t, "keys", "pubkey", `${keyPath}.age`)).code, 1);
+});
+
+test("usage errors exit with code 2", async (t) => {
+  assert.equal((await cli(t, "wallets")).code, 2);
+  assert.equal((await cli(t, "keys", "rotate")).code, 2);
+  assert.equal((await cli(t, "keys", "pubkey")).code, 2);
+  assert.equal((await cli(t, "keys", "generate", "--bogus")).code, 2);
+});
@@ -0,0 +1,128 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KeyType } from "../src/types";
+import { MpciumError } from "../src/errors";
+import { MpciumClient } from "../src/client";
+import { MemoryKeySigner } from "../src/signer";
+import { startCluster, TEST_PRIVATE_KEY } from "./helpers";
+
+test("createWalletAndWait resolves with the keygen result", async () => {
+  const cluster = await startCluster();
+  try {
+    const result = await cluster.client.createWalletAndWait("wallet-1");
+    assert.equal(result.wallet_id, "wallet-1");
+    assert.ok(cluster.simulator.wallet("wallet-1"));
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("signTransactionAndWait does not publish for an aborted signal", async () => {
+  const cluster = await startCluster();
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await assert.rejects(
+      cluster.client.signTransactionAndWait(
+        {
+          walletId: "wallet-1",
+          keyType: KeyType.Ed25519,
+          networkInternalCode: "solana:devnet",
+          tx: Buffer.from("payload").toString("base64"),
+        },
+        { signal: AbortSignal.abort(new Error("cancelled")) }
+      ),
+      /cancelled/
+    );
+    await cluster.simulator.idle();
+    assert.deepEqual(
+      cluster.simulator.requests.map((request) => request.kind),
+      ["keygen"]
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("a request ID that is already pending is not signed again", async () => {
+  const key = new MemoryKeySigner(TEST_PRIVATE_KEY);
+  let signed = 0;
+  const signer = {
+    publicKey: () => key.publicKey(),
+    sign: (payload: Uint8Array) => {
+      signed++;
+      return key.sign(payload);
+    },
+  };
+  const cluster = await startCluster({ signer }, { delayMs: 20 });
+  try {
+    const first = cluster.client.createWalletAndWait("wallet-1");
+    await assert.rejects(
+      cluster.client.createWalletAndWait("wallet-1"),
+      MpciumError
+    );
+    await first;
+    assert.equal(signed, 1);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("signResults yields signing results", async () => {
+  const cluster = await startCluster();
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    const results = cluster.client.signResults();
+    const txId = await cluster.client.signTransaction({
+      walletId: "wallet-1",
+      keyType: KeyType.Ed25519,
+      networkInternalCode: "solana:devnet",
+      tx: Buffer.from("payload").toString("base64"),
+    });
+    const { value } = await results.next();
+    assert.equal(value?.tx_id, txId);
+    await results.return!();
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("signResults with an aborted signal ends at once", async () => {
+  const cluster = await startCluster();
+  try {
+    const results = cluster.client.signResults({
+      signal: AbortSignal.abort(),
+    });
+    assert.deepEqual(await results.next(), { value: undefined, done: true });
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("prefer-jetstream falls back to core NATS at once without JetStream", async (t) => {
+  const cluster = await startCluster();
+  const nc = cluster.server.connect();
+  const client = await MpciumClient.create({
+    nc,
+    signer: new MemoryKeySigner(TEST_PRIVATE_KEY),
+    transport: "prefer-jetstream",
+  });
+  try {
+    let accountInfoCalls = 0;
+    t.mock.method(nc, "jetstreamManager", async () => ({
+      getAccountInfo: async () => {
+        accountInfoCalls++;
+        throw new Error("JetStream not enabled");
+      },
+    }));
+    const publish = t.mock.method(nc, "publish");
+
+    const started = Date.now();
+    await client.createWallet("wallet-1");
+    assert.ok(Date.now() - started < 150, "fell back without retrying");
+    assert.equal(accountInfoCalls, 1);
+    assert.equal(publish.mock.callCount(), 1);
+  } finally {
+    await client.close({ gracePeriodMs: 0 });
+    await cluster.stop();
+  }
+});
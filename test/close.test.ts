@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { KeyType, SignTransactionParams } from "../src/types";
+import { startCluster } from "./helpers";
+
+function signParams(txId: string): SignTransactionParams {
+  return {
+    walletId: "wallet-1",
+    keyType: KeyType.Ed25519,
+    networkInternalCode: "solana:devnet",
+    tx: Buffer.from("payload").toString("base64"),
+    txId,
+  };
+}
+
+test("close waits for results of fire-and-forget requests", async () => {
+  const cluster = await startCluster({}, { delayMs: { signing: 200 } });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.signTransaction(signParams("tx-1"));
+
+    const started = Date.now();
+    const { outstanding } = await cluster.client.close({ gracePeriodMs: 2000 });
+    assert.deepEqual(outstanding, []);
+    assert.ok(Date.now() - started < 2000, "returned once the result arrived");
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("close waits for results of kinds with a listener", async () => {
+  const cluster = await startCluster({}, { delayMs: { signing: 200 } });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    const txIds: string[] = [];
+    cluster.client.onSignResult((event) => txIds.push(event.tx_id));
+    await cluster.client.signTransaction(signParams("tx-1"));
+
+    const { outstanding } = await cluster.client.close({ gracePeriodMs: 2000 });
+    assert.deepEqual(outstanding, []);
+    assert.deepEqual(txIds, ["tx-1"]);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("close reports requests still without a result after the grace period", async () => {
+  const cluster = await startCluster({}, { delayMs: { signing: 1000 } });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.signTransaction(signParams("tx-1"));
+
+    const started = Date.now();
+    const { outstanding } = await cluster.client.close({ gracePeriodMs: 100 });
+    assert.ok(Date.now() - started >= 100, "waited for the grace period");
+    assert.deepEqual(outstanding, [
+      { kind: "signing", id: "tx-1", walletId: "wallet-1" },
+    ]);
+  } finally {
+    await cluster.stop();
+  }
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { resultConsumerConfig } from "../src/admin";
+import { DEFAULT_SUBJECTS } from "../src/subjects";
+import { startCluster, TestCluster } from "./helpers";
+
+async function keygenConsumerExists(cluster: TestCluster): Promise<boolean> {
+  const jsm = await cluster.server.connect().jetstreamManager();
+  const name = `${DEFAULT_SUBJECTS.keygenConsumer}_${cluster.client.instanceId}`;
+  try {
+    await jsm.consumers.info(DEFAULT_SUBJECTS.resultStream, name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+test("per-instance consumers with a generated ID expire and are deleted on close", async () => {
+  const config = resultConsumerConfig(
+    "mpc.result.>",
+    { mode: "per-instance" },
+    true
+  );
+  assert.ok(config.inactive_threshold);
+
+  const cluster = await startCluster({ consumer: { mode: "per-instance" } });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    assert.equal(await keygenConsumerExists(cluster), true);
+    await cluster.client.close();
+    assert.equal(await keygenConsumerExists(cluster), false);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("per-instance consumers with a configured ID are kept", async () => {
+  const config = resultConsumerConfig(
+    "mpc.result.>",
+    { mode: "per-instance", instanceId: "host-1" },
+    true
+  );
+  assert.equal(config.inactive_threshold, undefined);
+
+  const cluster = await startCluster({
+    consumer: { mode: "per-instance", instanceId: "host-1" },
+  });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.close();
+    assert.equal(await keygenConsumerExists(cluster), true);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("shared consumers are durable without an inactive threshold", () => {
+  const config = resultConsumerConfig("mpc.result.>", {}, true);
+  assert.equal(config.inactive_threshold, undefined);
+});
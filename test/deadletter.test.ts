@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSONCodec } from "nats";
+import { DEFAULT_SUBJECTS } from "../src/subjects";
+import { InvalidEventError, MpciumError, TransportError } from "../src/errors";
+import { KeyType } from "../src/types";
+import { startCluster } from "./helpers";
+
+test("a result that cannot be dead-lettered on its last delivery is reported as lost", async (t) => {
+  const errors: MpciumError[] = [];
+  const cluster = await startCluster({
+    deadLetter: true,
+    consumer: { maxDeliver: 1 },
+    onError: (err) => errors.push(err),
+  });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    t.mock.method(cluster.client.deadLetters, "publish", async () => {
+      throw new TransportError("dead-letter stream unavailable");
+    });
+    cluster.server
+      .connect()
+      .publish(
+        DEFAULT_SUBJECTS.keygenResult.replace("*", "wallet-2"),
+        JSONCodec().encode({ wallet_id: "wallet-2", result_type: "bogus" })
+      );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const lost = errors.filter((err) => err.message.startsWith("Dropped"));
+    assert.equal(lost.length, 1);
+    assert.ok(lost[0] instanceof TransportError);
+    assert.match(lost[0].message, /wallet-2/);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("a request whose result fails validation is rejected with the validation error", async () => {
+  const cluster = await startCluster(
+    { deadLetter: true, onError: () => undefined },
+    { delayMs: { signing: 1000 } }
+  );
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    cluster.client.useRequestMiddleware(async (ctx, next) => {
+      await next();
+      if (ctx.kind !== "signing") return;
+      // A success without a signature fails validation
+      cluster.server.connect().publish(
+        DEFAULT_SUBJECTS.signingResult.replace("*", ctx.message.tx_id),
+        JSONCodec().encode({
+          wallet_id: "wallet-1",
+          tx_id: ctx.message.tx_id,
+          result_type: "success",
+        })
+      );
+    });
+
+    await assert.rejects(
+      cluster.client.signTransactionAndWait({
+        walletId: "wallet-1",
+        keyType: KeyType.Ed25519,
+        networkInternalCode: "solana:devnet",
+        tx: Buffer.from("payload").toString("base64"),
+      }),
+      InvalidEventError
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Interface, Transaction } from "ethers";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction as SolanaTransaction,
+} from "@solana/web3.js";
+import {
+  ethereumDecoder,
+  polkadotDecoder,
+  solanaDecoder,
+} from "../src/decoders";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const TOKEN = "0x2222222222222222222222222222222222222222";
+
+function ethereumPayload(fields: Record<string, unknown>): Uint8Array {
+  const tx = Transaction.from({
+    chainId: 1,
+    nonce: 0,
+    gasLimit: 21000,
+    maxFeePerGas: 1,
+    maxPriorityFeePerGas: 1,
+    ...fields,
+  });
+  return Buffer.from(tx.unsignedSerialized.slice(2), "hex");
+}
+
+test("ethereum decoder reads native transfers", () => {
+  const decoded = ethereumDecoder().decode(
+    ethereumPayload({ to: RECIPIENT, value: 5n }),
+    "ethereum:1"
+  );
+  assert.deepEqual(decoded, {
+    transfers: [{ destination: RECIPIENT, amount: 5n }],
+    complete: true,
+  });
+});
+
+test("ethereum decoder reads ERC-20 transfers", () => {
+  const data = new Interface([
+    "function transfer(address to, uint256 amount)",
+  ]).encodeFunctionData("transfer", [RECIPIENT, 7n]);
+  const decoded = ethereumDecoder().decode(
+    ethereumPayload({ to: TOKEN, data }),
+    "ethereum:1"
+  );
+  assert.deepEqual(decoded?.transfers, [
+    { destination: RECIPIENT, amount: 7n, asset: TOKEN },
+  ]);
+});
+
+test("ethereum decoder does not read transaction hashes", () => {
+  assert.equal(
+    ethereumDecoder().decode(new Uint8Array(32), "ethereum:1"),
+    undefined
+  );
+});
+
+test("solana decoder reads System Program transfers", () => {
+  const from = Keypair.generate().publicKey;
+  const to = new PublicKey("9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin");
+  const tx = new SolanaTransaction({
+    feePayer: from,
+    recentBlockhash: "11111111111111111111111111111111",
+  }).add(
+    SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports: 42 })
+  );
+
+  const decoded = solanaDecoder().decode(
+    tx.serializeMessage(),
+    "solana:devnet"
+  );
+  assert.deepEqual(decoded, {
+    transfers: [{ destination: to.toBase58(), amount: 42n }],
+    complete: true,
+  });
+});
+
+test("polkadot decoder reads Balances and Assets transfers", () => {
+  const account = Buffer.alloc(32, 0xab);
+  // Compact encodings: 100 = 0x91 0x01, 1984 = 0x01 0x1f
+  const native = Buffer.concat([
+    Buffer.from([5, 3, 0]),
+    account,
+    Buffer.from([0x91, 0x01]),
+  ]);
+  const asset = Buffer.concat([
+    Buffer.from([50, 8, 0x01, 0x1f, 0]),
+    account,
+    Buffer.from([0x91, 0x01]),
+  ]);
+  const decoder = polkadotDecoder();
+  const destination = `0x${account.toString("hex")}`;
+
+  assert.deepEqual(decoder.decode(native, "polkadot:mainnet"), {
+    transfers: [{ destination, amount: 100n }],
+    complete: true,
+  });
+  assert.deepEqual(decoder.decode(asset, "polkadot:asset-hub"), {
+    transfers: [{ destination, amount: 100n, asset: "1984" }],
+    complete: true,
+  });
+  assert.deepEqual(decoder.decode(Buffer.from([7, 0]), "polkadot:mainnet"), {
+    transfers: [],
+    complete: false,
+  });
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSONCodec } from "nats";
+import { DEFAULT_SUBJECTS } from "../src/subjects";
+import { InvalidEventError, MpciumError } from "../src/errors";
+import { Logger, silentLogger } from "../src/logger";
+import { startCluster, TestCluster } from "./helpers";
+
+async function publishInvalidResult(cluster: TestCluster): Promise<void> {
+  await cluster.client.createWalletAndWait("wallet-1");
+  cluster.server
+    .connect()
+    .publish(
+      DEFAULT_SUBJECTS.keygenResult.replace("*", "wallet-2"),
+      JSONCodec().encode({ wallet_id: "wallet-2", result_type: "bogus" })
+    );
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+test("background failures go to onError", async () => {
+  const errors: MpciumError[] = [];
+  const cluster = await startCluster({ onError: (err) => errors.push(err) });
+  try {
+    await publishInvalidResult(cluster);
+    assert.ok(errors.some((err) => err instanceof InvalidEventError));
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("background failures go to the logger without onError", async (t) => {
+  const logger: Logger = { ...silentLogger };
+  const logged = t.mock.method(logger, "error");
+  const cluster = await startCluster({ logger });
+  try {
+    await publishInvalidResult(cluster);
+    assert.ok(
+      logged.mock.calls.some(
+        (call) =>
+          (call.arguments[1]?.error as Error | undefined)?.name ===
+          "InvalidEventError"
+      )
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("background failures are not written to the console by default", async (t) => {
+  const consoleError = t.mock.method(console, "error", () => undefined);
+  const cluster = await startCluster();
+  try {
+    await publishInvalidResult(cluster);
+    assert.equal(consoleError.mock.callCount(), 0);
+  } finally {
+    await cluster.stop();
+  }
+});
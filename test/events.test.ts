@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TypedEmitter, createResultIterator, Listener } from "../src/events";
+
+interface Events {
+  result: string;
+}
+
+test("emit calls every listener and collects their errors", () => {
+  const emitter = new TypedEmitter<Events>();
+  const seen: string[] = [];
+  emitter.on("result", () => {
+    throw new Error("listener failed");
+  });
+  const off = emitter.on("result", (event) => seen.push(event));
+
+  const errors = emitter.emit("result", "a");
+  assert.deepEqual(seen, ["a"]);
+  assert.equal(errors.length, 1);
+
+  off();
+  emitter.emit("result", "b");
+  assert.deepEqual(seen, ["a"]);
+  assert.equal(emitter.listenerCount("result"), 1);
+});
+
+test("the result iterator buffers events until they are pulled", async () => {
+  let push: Listener<string> = () => undefined;
+  let unsubscribed = false;
+  const iterator = createResultIterator<string>((listener) => {
+    push = listener;
+    return { unsubscribe: () => (unsubscribed = true) };
+  });
+
+  push("a");
+  push("b");
+  assert.deepEqual(await iterator.next(), { value: "a", done: false });
+  assert.deepEqual(await iterator.next(), { value: "b", done: false });
+  const waiting = iterator.next();
+  push("c");
+  assert.deepEqual(await waiting, { value: "c", done: false });
+  await iterator.return!();
+  assert.equal(unsubscribed, true);
+  assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+});
+
+test("aborting the signal ends the iteration", async () => {
+  const controller = new AbortController();
+  const iterator = createResultIterator<string>(
+    () => ({ unsubscribe: () => undefined }),
+    controller.signal
+  );
+  const next = iterator.next();
+  controller.abort();
+  assert.deepEqual(await next, { value: undefined, done: true });
+});
+
+test("an already aborted signal never subscribes", async () => {
+  let subscribed = false;
+  const iterator = createResultIterator<string>(() => {
+    subscribed = true;
+    return { unsubscribe: () => undefined };
+  }, AbortSignal.abort());
+  assert.equal(subscribed, false);
+  assert.deepEqual(await iterator.next(), { value: undefined, done: true });
+});
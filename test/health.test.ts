@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MpciumClient } from "../src/client";
+import { MpciumError } from "../src/errors";
+import { Logger, silentLogger } from "../src/logger";
+import { MemoryKeySigner } from "../src/signer";
+import { MemoryNatsServer } from "../src/testing";
+import { startCluster, TEST_PRIVATE_KEY } from "./helpers";
+
+test("health reports a connected client with its streams and consumers", async () => {
+  const cluster = await startCluster();
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    const report = await cluster.client.health();
+    assert.equal(report.healthy, true);
+    assert.equal(report.connection.state, "connected");
+    assert.equal(report.jetstream.available, true);
+    assert.ok(report.streams.every((stream) => stream.exists));
+    assert.deepEqual(
+      report.consumers.map((consumer) => consumer.kind),
+      ["keygen"]
+    );
+    assert.ok(report.lastResultAt !== undefined);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("health returns JetStream failures without reporting them", async (t) => {
+  const errors: MpciumError[] = [];
+  const logger: Logger = { ...silentLogger };
+  const logged = t.mock.method(logger, "error");
+  const nc = new MemoryNatsServer().connect();
+  const client = await MpciumClient.create({
+    nc,
+    signer: new MemoryKeySigner(TEST_PRIVATE_KEY),
+    logger,
+    onError: (err) => errors.push(err),
+  });
+  try {
+    t.mock.method(nc, "jetstreamManager", async () => {
+      throw new Error("JetStream not enabled");
+    });
+    for (let i = 0; i < 3; i++) {
+      const report = await client.health();
+      assert.equal(report.healthy, false);
+      assert.equal(report.jetstream.available, false);
+      assert.match(report.jetstream.error ?? "", /JetStream not enabled/);
+    }
+    assert.deepEqual(errors, []);
+    assert.equal(logged.mock.callCount(), 0);
+  } finally {
+    await client.close({ gracePeriodMs: 0 });
+  }
+});
+
+test("health of a client on a closed connection", async () => {
+  const nc = new MemoryNatsServer().connect();
+  const client = await MpciumClient.create({
+    nc,
+    signer: new MemoryKeySigner(TEST_PRIVATE_KEY),
+  });
+  await nc.close();
+  const report = await client.health();
+  assert.equal(report.healthy, false);
+  assert.equal(report.connection.state, "closed");
+  assert.deepEqual(report.streams, []);
+});
@@ -0,0 +1,50 @@
+import { MpciumClient } from "../src/client";
+import { MpciumOptions } from "../src/types";
+import { MemoryKeySigner } from "../src/signer";
+import {
+  MemoryNatsServer,
+  MpcClusterSimulator,
+  SimulatorOptions,
+} from "../src/testing";
+
+// Fixed initiator key shared by the tests
+export const TEST_PRIVATE_KEY =
+  "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60";
+
+export interface TestCluster {
+  server: MemoryNatsServer;
+  simulator: MpcClusterSimulator;
+  client: MpciumClient;
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a simulated cluster on an in-memory NATS server and a client
+ * signing with the test key
+ */
+export async function startCluster(
+  options: Partial<MpciumOptions> = {},
+  simulatorOptions: Partial<SimulatorOptions> = {}
+): Promise<TestCluster> {
+  const server = new MemoryNatsServer();
+  const signer = new MemoryKeySigner(TEST_PRIVATE_KEY);
+  const simulator = await MpcClusterSimulator.start({
+    nc: server.connect(),
+    initiatorPublicKey: await signer.publicKey(),
+    ...simulatorOptions,
+  });
+  const client = await MpciumClient.create({
+    nc: server.connect(),
+    signer,
+    ...options,
+  });
+  return {
+    server,
+    simulator,
+    client,
+    async stop() {
+      await client.close({ gracePeriodMs: 0 });
+      await simulator.stop();
+    },
+  };
+}
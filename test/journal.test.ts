@@ -0,0 +1,96 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileJournal, JournalEntry, MemoryJournal } from "../src/journal";
+import { startCluster } from "./helpers";
+
+function keygenEntry(id: string, createdAt = Date.now()): JournalEntry {
+  return {
+    kind: "keygen",
+    id,
+    message: { wallet_id: id },
+    status: "pending",
+    createdAt,
+  };
+}
+
+async function journalPath(t: TestContext): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mpcium-journal-"));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return path.join(dir, "nested", "journal.jsonl");
+}
+
+async function readLines(filePath: string): Promise<unknown[]> {
+  const content = await fs.readFile(filePath, "utf8");
+  return content
+    .split("\n")
+    .filter((line) => line)
+    .map((line) => JSON.parse(line));
+}
+
+test("FileJournal appends changes and reloads them", async (t) => {
+  const filePath = await journalPath(t);
+  const journal = new FileJournal(filePath);
+  await journal.record(keygenEntry("wallet-1"));
+  await journal.record(keygenEntry("wallet-2"));
+  await journal.complete("keygen", "wallet-1", { status: "completed" });
+  await journal.remove("keygen", "wallet-2");
+
+  assert.equal((await readLines(filePath)).length, 4);
+
+  const reloaded = new FileJournal(filePath);
+  assert.deepEqual(await reloaded.pending(), []);
+  assert.equal((await reloaded.get("keygen", "wallet-1"))?.status, "completed");
+  assert.equal(await reloaded.get("keygen", "wallet-2"), undefined);
+});
+
+test("FileJournal drops finished requests after a day by default", async (t) => {
+  const filePath = await journalPath(t);
+  const journal = new FileJournal(filePath);
+  const dayAgo = Date.now() - 25 * 60 * 60 * 1000;
+  const now = t.mock.method(Date, "now", () => dayAgo);
+  await journal.record(keygenEntry("wallet-1"));
+  await journal.complete("keygen", "wallet-1", { status: "failed" });
+  now.mock.restore();
+
+  await journal.record(keygenEntry("wallet-2"));
+  assert.equal(await journal.get("keygen", "wallet-1"), undefined);
+  assert.equal(
+    await new FileJournal(filePath).get("keygen", "wallet-1"),
+    undefined
+  );
+});
+
+test("FileJournal skips and repairs a half written last line", async (t) => {
+  const filePath = await journalPath(t);
+  await new FileJournal(filePath).record(keygenEntry("wallet-1"));
+  await fs.appendFile(filePath, '{"kind":"keygen","id":"wal');
+
+  const journal = new FileJournal(filePath);
+  await journal.record(keygenEntry("wallet-2"));
+
+  const ids = (await new FileJournal(filePath).pending()).map((e) => e.id);
+  assert.deepEqual(ids.sort(), ["wallet-1", "wallet-2"]);
+  assert.equal((await readLines(filePath)).length, 2);
+});
+
+test("expired requests are marked failed and reported once", async () => {
+  const journal = new MemoryJournal();
+  await journal.record(keygenEntry("wallet-1", Date.now() - 60_000));
+  const cluster = await startCluster({ journal, journalTtlMs: 1000 });
+  try {
+    const first = await cluster.client.recoverPendingRequests();
+    assert.deepEqual(
+      first.expired.map((entry) => entry.id),
+      ["wallet-1"]
+    );
+    assert.equal((await journal.get("keygen", "wallet-1"))?.status, "failed");
+
+    const second = await cluster.client.recoverPendingRequests();
+    assert.deepEqual(second.expired, []);
+  } finally {
+    await cluster.stop();
+  }
+});
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  LogFields,
+  Logger,
+  redactFields,
+  silentLogger,
+  withLevel,
+  withRedaction,
+} from "../src/logger";
+
+test("redactFields replaces sensitive keys at any depth", () => {
+  const fields = {
+    walletId: "wallet-1",
+    event: { tx_id: "tx-1", signature: "c2ln", nested: { privateKey: "k" } },
+  };
+  assert.deepEqual(redactFields(fields), {
+    walletId: "wallet-1",
+    event: {
+      tx_id: "tx-1",
+      signature: "[REDACTED]",
+      nested: { privateKey: "[REDACTED]" },
+    },
+  });
+  assert.equal(fields.event.signature, "c2ln", "the input is not changed");
+});
+
+test("redactFields redacts inside arrays and flattens errors", () => {
+  assert.deepEqual(
+    redactFields({
+      results: [{ r: "1", s: "2", tx_id: "tx-1" }, "plain"],
+      error: new TypeError("boom"),
+    }),
+    {
+      results: [{ r: "[REDACTED]", s: "[REDACTED]", tx_id: "tx-1" }, "plain"],
+      error: { name: "TypeError", message: "boom" },
+    }
+  );
+});
+
+test("redactFields truncates objects beyond the depth limit", () => {
+  let deep: LogFields = { password: "hunter2" };
+  for (let i = 0; i < 10; i++) deep = { level: i, child: deep };
+
+  const redacted = JSON.stringify(redactFields({ deep }));
+  assert.doesNotMatch(redacted, /hunter2/);
+  assert.match(redacted, /\[Truncated\]/);
+});
+
+test("withRedaction and withLevel wrap a logger", (t) => {
+  const target: Logger = { ...silentLogger };
+  const warn = t.mock.method(target, "warn");
+  const debug = t.mock.method(target, "debug");
+  const logger = withLevel(withRedaction(target), "info");
+
+  logger.debug("hidden", { tx: "payload" });
+  logger.warn("shown", { tx: "payload", txId: "tx-1" });
+
+  assert.equal(debug.mock.callCount(), 0);
+  assert.deepEqual(warn.mock.calls[0].arguments, [
+    "shown",
+    { tx: "[REDACTED]", txId: "tx-1" },
+  ]);
+});
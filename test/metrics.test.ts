@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PrometheusMetrics } from "../src/metrics";
+import { KeyType } from "../src/types";
+import { startCluster } from "./helpers";
+
+test("PrometheusMetrics renders a sign round trip", async () => {
+  const metrics = new PrometheusMetrics([1, 5]);
+  const cluster = await startCluster({ metrics });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.signTransactionAndWait({
+      walletId: "wallet-1",
+      keyType: KeyType.Ed25519,
+      networkInternalCode: "solana:devnet",
+      tx: Buffer.from("payload").toString("base64"),
+      txId: "tx-1",
+    });
+  } finally {
+    await cluster.stop();
+  }
+
+  // Durations vary between runs
+  const rendered = metrics
+    .render()
+    .replace(/(_sum\{[^}]*\}) [0-9.e-]+/g, "$1 <sum>");
+  assert.equal(
+    rendered,
+    `# HELP mpcium_requests_sent_total Requests published, by kind and transport
+# TYPE mpcium_requests_sent_total counter
+mpcium_requests_sent_total{kind="keygen",transport="jetstream"} 1
+mpcium_requests_sent_total{kind="signing",transport="jetstream"} 1
+# HELP mpcium_results_total Result events received, by kind, result_type and error_code
+# TYPE mpcium_results_total counter
+mpcium_results_total{kind="keygen",result_type="success",error_code=""} 1
+mpcium_results_total{kind="signing",result_type="success",error_code=""} 1
+# HELP mpcium_consumer_pending_messages Messages pending on the result consumer, by kind
+# TYPE mpcium_consumer_pending_messages gauge
+mpcium_consumer_pending_messages{kind="keygen"} 0
+mpcium_consumer_pending_messages{kind="signing"} 0
+# HELP mpcium_request_duration_seconds Time from publishing a request to receiving its result, by kind and result_type
+# TYPE mpcium_request_duration_seconds histogram
+mpcium_request_duration_seconds_bucket{kind="keygen",result_type="success",le="1"} 1
+mpcium_request_duration_seconds_bucket{kind="keygen",result_type="success",le="5"} 1
+mpcium_request_duration_seconds_bucket{kind="keygen",result_type="success",le="+Inf"} 1
+mpcium_request_duration_seconds_sum{kind="keygen",result_type="success"} <sum>
+mpcium_request_duration_seconds_count{kind="keygen",result_type="success"} 1
+mpcium_request_duration_seconds_bucket{kind="signing",result_type="success",le="1"} 1
+mpcium_request_duration_seconds_bucket{kind="signing",result_type="success",le="5"} 1
+mpcium_request_duration_seconds_bucket{kind="signing",result_type="success",le="+Inf"} 1
+mpcium_request_duration_seconds_sum{kind="signing",result_type="success"} <sum>
+mpcium_request_duration_seconds_count{kind="signing",result_type="success"} 1
+`
+  );
+});
+
+test("PrometheusMetrics escapes label values and counts values above every bucket", () => {
+  const metrics = new PrometheusMetrics([1]);
+  metrics.increment("custom_total", { reason: 'say "hi"\\now\n' }, 2);
+  metrics.observe("custom_seconds", 0.5);
+  metrics.observe("custom_seconds", 7);
+
+  assert.equal(
+    metrics.render(),
+    `# TYPE custom_total counter
+custom_total{reason="say \\"hi\\"\\\\now\\n"} 2
+# TYPE custom_seconds histogram
+custom_seconds_bucket{le="1"} 1
+custom_seconds_bucket{le="+Inf"} 2
+custom_seconds_sum 7.5
+custom_seconds_count 2
+`
+  );
+});
@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MpciumError,
+  RequestRejectedError,
+  ResultDroppedError,
+} from "../src/errors";
+import { runMiddleware } from "../src/middleware";
+import { startCluster } from "./helpers";
+
+test("runMiddleware runs the chain in order around the handler", async () => {
+  const calls: string[] = [];
+  const reached = await runMiddleware(
+    [
+      async (ctx: string[], next) => {
+        ctx.push("a");
+        await next();
+        ctx.push("a after");
+      },
+      async (ctx: string[], next) => {
+        ctx.push("b");
+        await next();
+      },
+    ],
+    calls,
+    async (ctx) => {
+      ctx.push("handler");
+    }
+  );
+  assert.equal(reached, true);
+  assert.deepEqual(calls, ["a", "b", "handler", "a after"]);
+});
+
+test("runMiddleware reports a chain that stopped early", async () => {
+  let handled = false;
+  const reached = await runMiddleware([() => undefined], {}, async () => {
+    handled = true;
+  });
+  assert.equal(reached, false);
+  assert.equal(handled, false);
+});
+
+test("runMiddleware rejects next() called twice", async () => {
+  await assert.rejects(
+    runMiddleware(
+      [
+        async (_ctx, next) => {
+          await next();
+          await next();
+        },
+      ],
+      {},
+      async () => undefined
+    ),
+    MpciumError
+  );
+});
+
+test("request middleware sees the publish result and can reject", async () => {
+  const cluster = await startCluster();
+  try {
+    const published: string[] = [];
+    cluster.client.useRequestMiddleware(async (ctx, next) => {
+      if (ctx.kind === "keygen" && ctx.message.wallet_id === "blocked") {
+        throw new RequestRejectedError("blocked");
+      }
+      await next();
+      published.push(ctx.result!.id);
+    });
+
+    await cluster.client.createWallet("wallet-1");
+    await assert.rejects(
+      cluster.client.createWallet("blocked"),
+      RequestRejectedError
+    );
+    assert.deepEqual(published, ["wallet-1"]);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("request middleware must call next and keep the request ID", async () => {
+  const cluster = await startCluster();
+  try {
+    const remove = cluster.client.useRequestMiddleware(() => undefined);
+    await assert.rejects(
+      cluster.client.createWallet("wallet-1"),
+      RequestRejectedError
+    );
+    remove();
+
+    cluster.client.useRequestMiddleware(async (ctx, next) => {
+      if (ctx.kind === "keygen") ctx.message.wallet_id = "other";
+      await next();
+    });
+    await assert.rejects(
+      cluster.client.createWallet("wallet-2"),
+      /change the ID/
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("result middleware runs before waiters are settled", async () => {
+  const cluster = await startCluster();
+  try {
+    const seen: string[] = [];
+    cluster.client.useResultMiddleware(async (ctx, next) => {
+      seen.push(`${ctx.kind}:${ctx.event.wallet_id}`);
+      await next();
+    });
+    await cluster.client.createWalletAndWait("wallet-1");
+    assert.deepEqual(seen, ["keygen:wallet-1"]);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("a result dropped by result middleware rejects its waiter", async () => {
+  const cluster = await startCluster();
+  try {
+    cluster.client.useResultMiddleware(() => undefined);
+    await assert.rejects(
+      cluster.client.createWalletAndWait("wallet-1"),
+      ResultDroppedError
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
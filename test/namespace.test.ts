@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MpciumClient } from "../src/client";
+import { KeygenResultEvent } from "../src/types";
+import { MemoryKeySigner } from "../src/signer";
+import { MemoryNatsServer, MpcClusterSimulator } from "../src/testing";
+import { TEST_PRIVATE_KEY } from "./helpers";
+
+test("namespaced clients publish, consume and provision only their own names", async () => {
+  const server = new MemoryNatsServer();
+  const signer = new MemoryKeySigner(TEST_PRIVATE_KEY);
+  const subjects: string[] = [];
+  const tap = server
+    .connect()
+    .subscribe(">", { callback: (_, m) => subjects.push(m.subject) });
+
+  const tenants = await Promise.all(
+    ["tenant-a", "tenant-b"].map(async (namespace) => {
+      const simulator = await MpcClusterSimulator.start({
+        nc: server.connect(),
+        initiatorPublicKey: await signer.publicKey(),
+        namespace,
+      });
+      const client = await MpciumClient.create({
+        nc: server.connect(),
+        signer,
+        namespace,
+      });
+      const results: KeygenResultEvent[] = [];
+      client.onWalletCreationResult((event) => results.push(event));
+      return { namespace, simulator, client, results };
+    })
+  );
+  const [a, b] = tenants;
+  try {
+    await a.client.createWalletAndWait("wallet-1");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    assert.deepEqual(
+      a.results.map((event) => event.wallet_id),
+      ["wallet-1"]
+    );
+    assert.deepEqual(b.results, []);
+    assert.equal(b.simulator.requests.length, 0);
+    assert.ok(subjects.length > 0);
+    for (const subject of subjects) {
+      assert.ok(subject.startsWith("tenant-a."), subject);
+    }
+    for (const name of server.streamNames()) {
+      assert.match(name, /^tenant-[ab]-/);
+      for (const consumer of server.stream(name).consumers.keys()) {
+        assert.match(consumer, /^tenant-[ab]_/);
+      }
+    }
+  } finally {
+    tap.unsubscribe();
+    for (const tenant of tenants) {
+      await tenant.client.close({ gracePeriodMs: 0 });
+      await tenant.simulator.stop();
+    }
+  }
+});
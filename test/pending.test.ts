@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PendingRequests } from "../src/pending";
+import { MpciumError, RequestTimeoutError } from "../src/errors";
+
+test("resolve settles the waiting request once", async () => {
+  const pending = new PendingRequests<string>();
+  const result = pending.wait("a");
+  assert.equal(pending.has("a"), true);
+  assert.equal(pending.resolve("a", "done"), true);
+  assert.equal(await result, "done");
+  assert.equal(pending.has("a"), false);
+  assert.equal(pending.resolve("a", "again"), false);
+});
+
+test("a second wait for a pending ID is rejected", async () => {
+  const pending = new PendingRequests<string>();
+  const first = pending.wait("a");
+  await assert.rejects(pending.wait("a"), MpciumError);
+  assert.throws(() => pending.assertCanWait("a"), MpciumError);
+  pending.resolve("a", "done");
+  assert.equal(await first, "done");
+});
+
+test("wait times out", async () => {
+  const pending = new PendingRequests<string>();
+  await assert.rejects(
+    pending.wait("a", { timeoutMs: 5 }),
+    RequestTimeoutError
+  );
+  assert.equal(pending.size, 0);
+});
+
+test("abort signals reject the request", async () => {
+  const pending = new PendingRequests<string>();
+  const aborted = AbortSignal.abort(new Error("stop"));
+  assert.throws(() => pending.assertCanWait("a", { signal: aborted }), /stop/);
+  await assert.rejects(pending.wait("a", { signal: aborted }), /stop/);
+
+  const controller = new AbortController();
+  const result = pending.wait("b", { signal: controller.signal });
+  controller.abort(new Error("later"));
+  await assert.rejects(result, /later/);
+  assert.equal(pending.has("b"), false);
+});
+
+test("rejectAll rejects every request", async () => {
+  const pending = new PendingRequests<string>();
+  const results = [pending.wait("a"), pending.wait("b")];
+  pending.rejectAll(new Error("closed"));
+  for (const result of results) await assert.rejects(result, /closed/);
+  assert.equal(pending.size, 0);
+});
@@ -0,0 +1,201 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "ethers";
+import { TransactionPolicyEngine } from "../src/policy";
+import { KeyType, SignTxMessage } from "../src/types";
+import { MpciumError, PolicyViolationError } from "../src/errors";
+import { MemoryKeySigner } from "../src/signer";
+import { startCluster, TEST_PRIVATE_KEY } from "./helpers";
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const NOON = new Date("2026-01-05T12:00:00Z"); // Monday
+
+function ethTransfer(value: bigint, to = RECIPIENT): SignTxMessage {
+  const tx = Transaction.from({
+    chainId: 1,
+    nonce: 0,
+    gasLimit: 21000,
+    maxFeePerGas: 1,
+    maxPriorityFeePerGas: 1,
+    to,
+    value,
+  });
+  return {
+    key_type: KeyType.Secp256k1,
+    wallet_id: "wallet-1",
+    network_internal_code: "ethereum:1",
+    tx_id: `tx-${value}`,
+    tx: Buffer.from(tx.unsignedSerialized.slice(2), "hex").toString("base64"),
+  };
+}
+
+function rule(engine: TransactionPolicyEngine, msg: SignTxMessage, now = NOON) {
+  const decision = engine.evaluate(msg, now);
+  return decision.allowed ? undefined : decision.violation.rule;
+}
+
+test("wallet and network lists", () => {
+  const engine = new TransactionPolicyEngine({
+    denyWallets: ["bad"],
+    allowNetworks: ["ethereum:*"],
+  });
+  assert.equal(rule(engine, ethTransfer(1n)), undefined);
+  assert.equal(
+    rule(engine, { ...ethTransfer(1n), wallet_id: "bad" }),
+    "wallet.deny"
+  );
+  assert.equal(
+    rule(engine, {
+      ...ethTransfer(1n),
+      network_internal_code: "solana:devnet",
+    }),
+    "network.allow"
+  );
+});
+
+test("destination and amount limits", () => {
+  const engine = new TransactionPolicyEngine({
+    networks: {
+      "ethereum:1": {
+        allowDestinations: [RECIPIENT],
+        maxAmount: 100,
+        dailyAmount: "150",
+      },
+    },
+  });
+  assert.equal(
+    rule(engine, ethTransfer(1n, "0x3333333333333333333333333333333333333333")),
+    "destination.allow"
+  );
+  assert.equal(rule(engine, ethTransfer(101n)), "amount.max");
+
+  engine.enforce(ethTransfer(100n), NOON);
+  assert.equal(rule(engine, ethTransfer(60n)), "amount.daily");
+  assert.equal(rule(engine, ethTransfer(50n)), undefined);
+  // Usage starts over the next day
+  assert.equal(
+    rule(engine, ethTransfer(60n), new Date("2026-01-06T12:00:00Z")),
+    undefined
+  );
+});
+
+test("undecodable payloads are rejected by default", () => {
+  const msg = {
+    ...ethTransfer(1n),
+    tx: Buffer.alloc(32).toString("base64"),
+  };
+  const rules = { networks: { "ethereum:1": { maxAmount: 100 } } };
+  assert.equal(
+    rule(new TransactionPolicyEngine(rules), msg),
+    "payload.undecodable"
+  );
+  assert.equal(
+    rule(
+      new TransactionPolicyEngine({ ...rules, onUndecodable: "allow" }),
+      msg
+    ),
+    undefined
+  );
+});
+
+test("request limits count enforced requests and undo takes them back", () => {
+  const engine = new TransactionPolicyEngine({
+    maxRequestsPerDay: 2,
+    velocity: { maxRequests: 1, windowMs: 60_000 },
+  });
+  const undo = engine.enforce(ethTransfer(1n), NOON);
+  assert.throws(
+    () => engine.enforce(ethTransfer(2n), NOON),
+    (err: unknown) =>
+      err instanceof PolicyViolationError && err.rule === "limit.velocity"
+  );
+  undo();
+  undo();
+  engine.enforce(ethTransfer(2n), NOON);
+  engine.enforce(ethTransfer(3n), new Date(NOON.getTime() + 120_000));
+  assert.equal(
+    rule(engine, ethTransfer(4n), new Date(NOON.getTime() + 240_000)),
+    "limit.daily"
+  );
+  engine.reset("wallet-1");
+  assert.equal(rule(engine, ethTransfer(4n)), undefined);
+});
+
+test("time windows use the configured offset and cross midnight", () => {
+  const engine = new TransactionPolicyEngine({
+    timeWindows: [{ days: [1], start: "22:00", end: "02:00" }],
+    utcOffsetMinutes: 60,
+  });
+  // 21:30 UTC is 22:30 local on Monday
+  assert.equal(
+    rule(engine, ethTransfer(1n), new Date("2026-01-05T21:30:00Z")),
+    undefined
+  );
+  // 00:30 UTC Tuesday is 01:30 local, still Monday's window
+  assert.equal(
+    rule(engine, ethTransfer(1n), new Date("2026-01-06T00:30:00Z")),
+    undefined
+  );
+  assert.equal(rule(engine, ethTransfer(1n)), "time_window");
+});
+
+test("invalid time windows and amounts are rejected up front", () => {
+  assert.throws(
+    () =>
+      new TransactionPolicyEngine({
+        timeWindows: [{ start: "8am", end: "18:00" }],
+      }),
+    MpciumError
+  );
+  assert.throws(
+    () =>
+      new TransactionPolicyEngine({
+        timeWindows: [{ start: "24:00", end: "18:00" }],
+      }),
+    MpciumError
+  );
+  assert.throws(
+    () =>
+      new TransactionPolicyEngine({
+        wallets: {
+          w: {
+            networks: { "ethereum:1": { assets: { x: { maxAmount: "1.5" } } } },
+          },
+        },
+      }),
+    MpciumError
+  );
+});
+
+test("a failing signer does not count against the limits", async () => {
+  const key = new MemoryKeySigner(TEST_PRIVATE_KEY);
+  let fail = true;
+  const signer = {
+    publicKey: () => key.publicKey(),
+    sign: async (payload: Uint8Array) => {
+      if (fail) throw new Error("KMS unavailable");
+      return key.sign(payload);
+    },
+  };
+  const cluster = await startCluster({
+    signer,
+    policy: { maxRequestsPerDay: 1 },
+  });
+  try {
+    const params = {
+      walletId: "wallet-1",
+      keyType: KeyType.Ed25519,
+      networkInternalCode: "solana:devnet",
+      tx: Buffer.from("payload").toString("base64"),
+    };
+    await assert.rejects(cluster.client.signTransaction(params), /KMS/);
+    fail = false;
+    await cluster.client.signTransaction(params);
+    await assert.rejects(
+      cluster.client.signTransaction(params),
+      PolicyViolationError
+    );
+  } finally {
+    await cluster.stop();
+  }
+});
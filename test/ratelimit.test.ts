@@ -0,0 +1,128 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RequestLimiter } from "../src/ratelimit";
+import { MpciumError, RateLimitError } from "../src/errors";
+import { KeyType } from "../src/types";
+import { startCluster } from "./helpers";
+
+const settled = (promise: Promise<unknown>) =>
+  Promise.race([
+    promise.then(() => true),
+    new Promise((resolve) => setTimeout(() => resolve(false), 20)),
+  ]);
+
+test("in-flight slots are held until released", async () => {
+  const limiter = new RequestLimiter({ maxInFlight: 1 });
+  await limiter.acquire("signing", "a", "w");
+  const second = limiter.acquire("signing", "b", "w");
+  assert.equal(await settled(second), false);
+  assert.deepEqual(limiter.stats(), { queued: 1, inFlight: 1 });
+
+  limiter.release("signing", "a");
+  assert.equal(await settled(second), true);
+  limiter.release("signing", "b");
+});
+
+test("limits that would never admit a request are rejected", () => {
+  for (const options of [
+    { global: { ratePerSecond: 0 } },
+    { global: { ratePerSecond: -1 } },
+    { perWallet: { ratePerSecond: NaN } },
+    { perKind: { signing: { ratePerSecond: Infinity } } },
+    { global: { ratePerSecond: 1, burst: 0 } },
+    { maxInFlight: 0 },
+  ]) {
+    assert.throws(() => new RequestLimiter(options), MpciumError);
+  }
+  assert.doesNotThrow(
+    () => new RequestLimiter({ global: { ratePerSecond: 0.5, burst: 1 } })
+  );
+});
+
+test("a throttled wallet does not hold back other wallets", async () => {
+  const limiter = new RequestLimiter({ perWallet: { ratePerSecond: 1 } });
+  await limiter.acquire("signing", "a", "busy");
+  const throttled = limiter.acquire("signing", "b", "busy");
+  const other = limiter.acquire("signing", "c", "idle");
+  assert.equal(await settled(other), true);
+  assert.equal(await settled(throttled), false);
+  limiter.rejectAll(new Error("closed"));
+  await assert.rejects(throttled, /closed/);
+});
+
+test("reject mode and queue depth throw RateLimitError", async () => {
+  const rejecting = new RequestLimiter({
+    global: { ratePerSecond: 1 },
+    whenLimited: "reject",
+  });
+  await rejecting.acquire("keygen", "a", "w");
+  await assert.rejects(rejecting.acquire("keygen", "b", "w"), RateLimitError);
+
+  const bounded = new RequestLimiter({ maxInFlight: 1, maxQueueDepth: 1 });
+  await bounded.acquire("keygen", "a", "w");
+  const queued = bounded.acquire("keygen", "b", "w");
+  await assert.rejects(bounded.acquire("keygen", "c", "w"), RateLimitError);
+  bounded.rejectAll(new Error("closed"));
+  await assert.rejects(queued, /closed/);
+});
+
+test("results free the in-flight slots of fire-and-forget requests", async () => {
+  const cluster = await startCluster({ rateLimit: { maxInFlight: 1 } });
+  try {
+    await cluster.client.createWallet("wallet-1");
+    await cluster.client.createWallet("wallet-2");
+    await cluster.simulator.idle();
+    assert.ok(cluster.simulator.wallet("wallet-2"));
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("a failing journal releases the slot", async () => {
+  const cluster = await startCluster({
+    rateLimit: { maxInFlight: 1 },
+    journal: {
+      record: async () => {
+        throw new Error("disk full");
+      },
+      complete: async () => undefined,
+      pending: async () => [],
+      get: async () => undefined,
+      remove: async () => undefined,
+    },
+  });
+  try {
+    await assert.rejects(cluster.client.createWallet("wallet-1"), /disk full/);
+    assert.equal(cluster.client.queueStats().inFlight, 0);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("reshare results without a session ID free their slot", async () => {
+  const cluster = await startCluster({
+    rateLimit: { maxInFlight: 1 },
+    middleware: {
+      result: [
+        async (ctx, next) => {
+          if (ctx.kind === "reshare") delete ctx.event.session_id;
+          await next();
+        },
+      ],
+    },
+  });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.reshareKeys({
+      walletId: "wallet-1",
+      nodeIds: ["node0", "node1", "node2"],
+      newThreshold: 1,
+      keyType: KeyType.Secp256k1,
+    });
+    await cluster.simulator.idle();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(cluster.client.queueStats().inFlight, 0);
+  } finally {
+    await cluster.stop();
+  }
+});
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RetentionPolicy } from "nats";
+import { ReplayResultsOptions } from "../src/replay";
+import { DEFAULT_SUBJECTS } from "../src/subjects";
+import { KeyType } from "../src/types";
+import { startCluster, TestCluster } from "./helpers";
+
+async function replayed(
+  cluster: TestCluster,
+  options: ReplayResultsOptions
+): Promise<string[]> {
+  const ids: string[] = [];
+  for await (const result of cluster.client.replayResults(options)) {
+    ids.push(
+      result.kind === "signing"
+        ? `${result.kind}:${result.event.tx_id}`
+        : `${result.kind}:${result.event.wallet_id}`
+    );
+  }
+  return ids;
+}
+
+function sign(cluster: TestCluster, walletId: string, txId: string) {
+  return cluster.client.signTransactionAndWait({
+    walletId,
+    keyType: KeyType.Ed25519,
+    networkInternalCode: "solana:devnet",
+    tx: Buffer.from(txId).toString("base64"),
+    txId,
+  });
+}
+
+test("replayResults filters a limits-retention result stream", async () => {
+  const cluster = await startCluster({
+    streams: { results: { retention: RetentionPolicy.Limits } },
+  });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+    await cluster.client.createWalletAndWait("wallet-2");
+    await sign(cluster, "wallet-1", "tx-1");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const since = new Date();
+    await sign(cluster, "wallet-2", "tx-2");
+    await sign(cluster, "wallet-1", "tx-3");
+    // Let the durable consumer acknowledge the last result
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const jsm = await cluster.server.connect().jetstreamManager();
+    const durable = () =>
+      jsm.consumers.info("mpc", DEFAULT_SUBJECTS.signingConsumer);
+    const before = await durable();
+
+    assert.deepEqual(await replayed(cluster, {}), [
+      "keygen:wallet-1",
+      "keygen:wallet-2",
+      "signing:tx-1",
+      "signing:tx-2",
+      "signing:tx-3",
+    ]);
+    assert.deepEqual(await replayed(cluster, { since }), [
+      "signing:tx-2",
+      "signing:tx-3",
+    ]);
+    assert.deepEqual(await replayed(cluster, { startSeq: 3 }), [
+      "signing:tx-1",
+      "signing:tx-2",
+      "signing:tx-3",
+    ]);
+    assert.deepEqual(
+      await replayed(cluster, { kind: "signing", walletId: "wallet-1" }),
+      ["signing:tx-1", "signing:tx-3"]
+    );
+    assert.deepEqual(await replayed(cluster, { limit: 2 }), [
+      "keygen:wallet-1",
+      "keygen:wallet-2",
+    ]);
+
+    const after = await durable();
+    assert.deepEqual(after.delivered, before.delivered);
+    assert.equal(after.num_pending, before.num_pending);
+    assert.equal(after.num_ack_pending, before.num_ack_pending);
+  } finally {
+    await cluster.stop();
+  }
+});
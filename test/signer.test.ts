@@ -0,0 +1,109 @@
+import { test, TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ed25519 from "@noble/ed25519";
+import { MpciumClient } from "../src/client";
+import { KeyLoadError } from "../src/errors";
+import {
+  AgeFileSigner,
+  EnvKeySigner,
+  HexFileSigner,
+  InitiatorSigner,
+  MemoryKeySigner,
+} from "../src/signer";
+import { MemoryNatsServer } from "../src/testing";
+import { encryptPrivateKey } from "../src/utils";
+import { TEST_PRIVATE_KEY } from "./helpers";
+
+const TEST_PUBLIC_KEY = new MemoryKeySigner(TEST_PRIVATE_KEY).publicKey();
+
+// Encrypting is slow, so the age tests share one file
+let ageKey: Promise<Uint8Array> | undefined;
+
+async function writeAgeKey(t: TestContext): Promise<string> {
+  const keyPath = path.join(await tempDir(t), "initiator.key.age");
+  ageKey ??= encryptPrivateKey(TEST_PRIVATE_KEY, "correct horse");
+  await fs.writeFile(keyPath, await ageKey);
+  return keyPath;
+}
+
+async function tempDir(t: TestContext): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mpcium-signer-"));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+async function assertSignsWithTestKey(signer: InitiatorSigner): Promise<void> {
+  const publicKey = await signer.publicKey();
+  assert.deepEqual(Buffer.from(publicKey), Buffer.from(await TEST_PUBLIC_KEY));
+  const payload = Buffer.from("payload");
+  const signature = await signer.sign(payload);
+  assert.equal(signature.length, 64);
+  assert.ok(await ed25519.verify(signature, payload, publicKey));
+}
+
+test("MemoryKeySigner rejects keys that are not 32 bytes", () => {
+  assert.throws(() => new MemoryKeySigner("abcd"), KeyLoadError);
+});
+
+test("EnvKeySigner reads the key from an environment variable", async (t) => {
+  const name = "MPCIUM_TEST_INITIATOR_KEY";
+  t.after(() => delete process.env[name]);
+  const signer = new EnvKeySigner(name);
+
+  await assert.rejects(signer.publicKey(), (err: Error) => {
+    assert.ok(err instanceof KeyLoadError);
+    assert.match(err.message, /MPCIUM_TEST_INITIATOR_KEY is not set/);
+    return true;
+  });
+
+  // A failed load is retried on the next call
+  process.env[name] = `${TEST_PRIVATE_KEY}\n`;
+  await assertSignsWithTestKey(signer);
+});
+
+test("EnvKeySigner rejects a malformed key", async (t) => {
+  const name = "MPCIUM_TEST_INITIATOR_KEY";
+  process.env[name] = "not-hex";
+  t.after(() => delete process.env[name]);
+  await assert.rejects(new EnvKeySigner(name).publicKey(), KeyLoadError);
+});
+
+test("HexFileSigner reads a hex key file", async (t) => {
+  const keyPath = path.join(await tempDir(t), "initiator.key");
+  await fs.writeFile(keyPath, TEST_PRIVATE_KEY);
+  await assertSignsWithTestKey(new HexFileSigner(keyPath));
+  await assert.rejects(
+    new HexFileSigner(`${keyPath}.missing`).publicKey(),
+    KeyLoadError
+  );
+});
+
+test("AgeFileSigner decrypts an age key file", async (t) => {
+  const keyPath = await writeAgeKey(t);
+
+  await assertSignsWithTestKey(new AgeFileSigner(keyPath, "correct horse"));
+  await assert.rejects(
+    new AgeFileSigner(keyPath, "wrong").publicKey(),
+    KeyLoadError
+  );
+});
+
+test("MpciumClient.create loads an age key file with its password", async (t) => {
+  const keyPath = await writeAgeKey(t);
+  const nc = new MemoryNatsServer().connect();
+
+  await assert.rejects(MpciumClient.create({ nc, keyPath }), KeyLoadError);
+  await assert.rejects(
+    MpciumClient.create({ nc, keyPath, password: "wrong" }),
+    KeyLoadError
+  );
+  const client = await MpciumClient.create({
+    nc,
+    keyPath,
+    password: "correct horse",
+  });
+  await client.close({ gracePeriodMs: 0 });
+});
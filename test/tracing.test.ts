@@ -0,0 +1,116 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { headers, Msg } from "nats";
+import {
+  extractTraceContext,
+  formatTraceparent,
+  injectTraceContext,
+  parseTraceparent,
+  StartSpanOptions,
+  TraceContext,
+  TraceSpan,
+  TracingHook,
+} from "../src/tracing";
+import { startCluster } from "./helpers";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+test("parseTraceparent reads a valid header", () => {
+  assert.deepEqual(
+    parseTraceparent(` 00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01 `, "k=v"),
+    { traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1, traceState: "k=v" }
+  );
+  const context = { traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 1 };
+  assert.deepEqual(parseTraceparent(formatTraceparent(context)), {
+    ...context,
+    traceState: undefined,
+  });
+});
+
+test("parseTraceparent rejects malformed headers and all-zero IDs", () => {
+  for (const value of [
+    "",
+    "garbage",
+    `01-${TRACE_ID}-${SPAN_ID}-01`,
+    `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`,
+    `00-${TRACE_ID}-${SPAN_ID}-1`,
+    `00-${"0".repeat(32)}-${SPAN_ID}-01`,
+    `00-${TRACE_ID}-${"0".repeat(16)}-01`,
+  ]) {
+    assert.equal(parseTraceparent(value), undefined, value);
+  }
+});
+
+test("injectTraceContext skips invalid contexts and round-trips valid ones", () => {
+  const empty = headers();
+  injectTraceContext(empty, {
+    traceId: "0".repeat(32),
+    spanId: "0".repeat(16),
+    traceFlags: 0,
+  });
+  assert.equal(extractTraceContext(empty), undefined);
+
+  const h = headers();
+  const context = {
+    traceId: TRACE_ID,
+    spanId: SPAN_ID,
+    traceFlags: 1,
+    traceState: "k=v",
+  };
+  injectTraceContext(h, context);
+  assert.equal(h.get("traceparent"), `00-${TRACE_ID}-${SPAN_ID}-01`);
+  assert.deepEqual(extractTraceContext(h), context);
+});
+
+interface RecordedSpan {
+  name: string;
+  options: StartSpanOptions;
+  context: TraceContext;
+}
+
+// Tracing hook recording its spans, with one span ID per span
+function recordingTracing(): { hook: TracingHook; spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const hook: TracingHook = {
+    startSpan(name, options): TraceSpan {
+      const context = {
+        traceId: options.parent?.traceId ?? TRACE_ID,
+        spanId: (spans.length + 1).toString(16).padStart(16, "0"),
+        traceFlags: 1,
+      };
+      spans.push({ name, options, context });
+      return {
+        context: () => context,
+        setAttributes: () => undefined,
+        recordError: () => undefined,
+        end: () => undefined,
+      };
+    },
+  };
+  return { hook, spans };
+}
+
+test("requests carry the traceparent of their span and results join it", async () => {
+  const { hook, spans } = recordingTracing();
+  const cluster = await startCluster({ tracing: hook });
+  const requests: Msg[] = [];
+  const sub = cluster.server.connect().subscribe("mpc.keygen_request.*", {
+    callback: (_, m) => requests.push(m),
+  });
+  try {
+    await cluster.client.createWalletAndWait("wallet-1");
+
+    const producer = spans.find((span) => span.options.kind === "producer")!;
+    const consumer = spans.find((span) => span.options.kind === "consumer")!;
+    assert.equal(
+      requests[0].headers?.get("traceparent"),
+      formatTraceparent(producer.context)
+    );
+    assert.equal(producer.options.attributes["mpcium.wallet_id"], "wallet-1");
+    assert.equal(consumer.options.parent?.spanId, producer.context.spanId);
+  } finally {
+    sub.unsubscribe();
+    await cluster.stop();
+  }
+});
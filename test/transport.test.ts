@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MsgHdrs } from "nats";
+import { MpciumClient } from "../src/client";
+import { MemoryKeySigner } from "../src/signer";
+import { MemoryNatsServer } from "../src/testing";
+import { startCluster, TEST_PRIVATE_KEY } from "./helpers";
+
+test("a request published twice is deduplicated by the stream", async () => {
+  const cluster = await startCluster();
+  try {
+    const first = await cluster.client.publishKeygenRequest("wallet-1");
+    const second = await cluster.client.publishKeygenRequest("wallet-1");
+    assert.equal(first.transport, "jetstream");
+    assert.equal(first.ack?.duplicate, false);
+    assert.equal(second.ack?.duplicate, true);
+    assert.equal(second.ack?.seq, first.ack?.seq);
+
+    await cluster.simulator.idle();
+    assert.equal(cluster.simulator.requests.length, 1);
+  } finally {
+    await cluster.stop();
+  }
+});
+
+test("JetStream availability is checked once, not on every publish", async (t) => {
+  const server = new MemoryNatsServer();
+  const nc = server.connect();
+  const jetstreamManager = nc.jetstreamManager.bind(nc);
+  let accountInfoCalls = 0;
+  t.mock.method(nc, "jetstreamManager", async () => {
+    const jsm = await jetstreamManager();
+    return {
+      ...jsm,
+      getAccountInfo: () => {
+        accountInfoCalls++;
+        return jsm.getAccountInfo();
+      },
+    };
+  });
+  const client = await MpciumClient.create({
+    nc,
+    signer: new MemoryKeySigner(TEST_PRIVATE_KEY),
+  });
+  try {
+    for (const walletId of ["wallet-1", "wallet-2", "wallet-3"]) {
+      await client.createWallet(walletId);
+    }
+    assert.equal(accountInfoCalls, 1);
+  } finally {
+    await client.close({ gracePeriodMs: 0 });
+  }
+});
+
+test("core-only requests carry the message ID header", async (t) => {
+  const server = new MemoryNatsServer();
+  const nc = server.connect();
+  const client = await MpciumClient.create({
+    nc,
+    signer: new MemoryKeySigner(TEST_PRIVATE_KEY),
+    transport: "core-only",
+  });
+  try {
+    const publish = t.mock.method(nc, "publish");
+    const result = await client.publishKeygenRequest("wallet-1");
+    assert.equal(result.transport, "core");
+    assert.equal(publish.mock.callCount(), 1);
+    const { headers } = publish.mock.calls[0].arguments[2] as {
+      headers: MsgHdrs;
+    };
+    assert.equal(headers.get("Nats-Msg-Id"), "keygen:wallet-1");
+  } finally {
+    await client.close({ gracePeriodMs: 0 });
+  }
+});